@@ -0,0 +1,54 @@
+import { easingFunctions } from '../configs/easing-functions';
+import { spring } from '../easings/spring';
+import { steps } from '../easings/steps';
+import { analyzeEasing } from './analyze-easing';
+import { linear } from '../testing/spec-helpers';
+
+const { easeInQuad, easeInOutQuad, easeOutBack, easeInBack } = easingFunctions;
+
+describe('analyzeEasing', () => {
+  it('samples the curve with its velocity and acceleration', () => {
+    const { curve, velocity, acceleration } = analyzeEasing(easeInQuad, { samples: 10 });
+
+    expect(curve).toHaveLength(11);
+    expect(curve[5]).toEqual({ progress: .5, value: .25 });
+    expect(velocity[5].value).toBeCloseTo(1);
+    expect(acceleration[5].value).toBeCloseTo(2);
+  });
+
+  it('finds the time of maximum velocity', () => {
+    const analysis = analyzeEasing(easeInOutQuad);
+
+    expect(analysis.maxVelocityAt).toBeCloseTo(.5, 1);
+    expect(analysis.maxVelocity).toBeCloseTo(2, 1);
+  });
+
+  it('measures overshoot and undershoot', () => {
+    expect(analyzeEasing(easeOutBack).overshoot).toBeCloseTo(.1, 2);
+    expect(analyzeEasing(easeOutBack).undershoot).toBe(0);
+    expect(analyzeEasing(easeInBack).undershoot).toBeCloseTo(.1, 2);
+    expect(analyzeEasing(linear).overshoot).toBe(0);
+  });
+
+  it('detects jumps but not steep continuous parts', () => {
+    const jumps = analyzeEasing(steps(4)).discontinuities;
+
+    expect(jumps).toHaveLength(4);
+    jumps.forEach((jump, index) => expect(jump).toBeCloseTo((index + 1) / 4));
+    expect(analyzeEasing(easeInOutQuad).discontinuities).toEqual([]);
+  });
+
+  it('reports how far the curve is from its target before it ends', () => {
+    const cutOff = analyzeEasing((e, s, d, t) => e < t ? s + d * .9 * e / t : s + d);
+
+    expect(analyzeEasing(spring()).settleError).toBeLessThan(2e-3);
+    expect(cutOff.settleError).toBeCloseTo(.1);
+    expect(cutOff.discontinuities).toHaveLength(1);
+    expect(cutOff.discontinuities[0]).toBeCloseTo(1);
+    expect(analyzeEasing(linear).settleError).toBeCloseTo(0);
+  });
+
+  it('rejects too few samples', () => {
+    expect(() => analyzeEasing(linear, { samples: 1 })).toThrow('analyzeEasing() needs an integer of at least 2 samples, got 1');
+  });
+});
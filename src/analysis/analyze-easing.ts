@@ -0,0 +1,76 @@
+import { EasingFunction } from '../types/easing-function';
+import { EasingAnalysis, EasingAnalysisOptions, EasingSample } from '../types/easing-analysis';
+
+const JUMP_TOLERANCE = 1e-6;
+const JUMP_BISECTIONS = 40;
+const END_EPSILON = 1e-9;
+
+/**
+ * Differentiates evenly spaced samples, with central differences inside and
+ * one-sided ones at both ends.
+ */
+const derivative = (samples: EasingSample[]): EasingSample[] =>
+  samples.map(({ progress }, index) => {
+    const before = samples[Math.max(0, index - 1)];
+    const after = samples[Math.min(samples.length - 1, index + 1)];
+
+    return {
+      progress: progress,
+      value: (after.value - before.value) / (after.progress - before.progress)
+    };
+  });
+
+/**
+ * Narrows `[from, to]` down to the half with the larger change until it is
+ * tiny. A continuous curve runs out of change on the way, a jump does not.
+ */
+const findJump = (ease: (progress: number) => number, from: number, to: number): number | null => {
+  for (let i = 0; i < JUMP_BISECTIONS; i++) {
+    const middle = (from + to) / 2;
+    const left = Math.abs(ease(middle) - ease(from));
+    const right = Math.abs(ease(to) - ease(middle));
+
+    if (left >= right) {
+      to = middle;
+    } else {
+      from = middle;
+    }
+  }
+
+  return Math.abs(ease(to) - ease(from)) > JUMP_TOLERANCE ? (from + to) / 2 : null;
+};
+
+export const analyzeEasing = (easing: EasingFunction, { samples = 200 }: EasingAnalysisOptions = {}): EasingAnalysis => {
+  if (!(samples >= 2) || !Number.isInteger(samples)) {
+    throw new Error(`analyzeEasing() needs an integer of at least 2 samples, got ${samples}`);
+  }
+
+  const ease = (progress: number) => easing(progress, 0, 1, 1);
+
+  const curve = Array.from({ length: samples + 1 }, (_, index): EasingSample => ({
+    progress: index / samples,
+    value: ease(index / samples)
+  }));
+
+  const velocity = derivative(curve);
+  const acceleration = derivative(velocity);
+
+  const fastest = velocity.reduce((max, sample) => Math.abs(sample.value) > Math.abs(max.value) ? sample : max);
+
+  const discontinuities = curve
+    .slice(1)
+    .map((sample, index) => findJump(ease, curve[index].progress, sample.progress))
+    .filter((progress): progress is number => progress !== null);
+
+  return {
+    curve: curve,
+    velocity: velocity,
+    acceleration: acceleration,
+    overshoot: Math.max(0, ...curve.map(sample => sample.value - 1)),
+    undershoot: Math.max(0, ...curve.map(sample => -sample.value)),
+    maxVelocity: fastest.value,
+    maxVelocityAt: fastest.progress,
+    discontinuities: discontinuities,
+    settleError: Math.abs(ease(1 - END_EPSILON) - 1)
+  };
+};
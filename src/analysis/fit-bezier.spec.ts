@@ -0,0 +1,56 @@
+import { easingFunctions } from '../configs/easing-functions';
+import { cubicBezier } from '../easings/cubic-bezier';
+import { spring } from '../easings/spring';
+import { fitCubicBezier, fitPiecewiseBezier } from './fit-bezier';
+
+const { easeInOutQuart, easeOutCubic } = easingFunctions;
+
+describe('fitCubicBezier', () => {
+  it('recovers the control points of a cubic-bezier', () => {
+    const fit = fitCubicBezier(cubicBezier(.17, .67, .83, .67));
+
+    expect(fit.maxError).toBeLessThan(2e-3);
+    expect(fit.css).toMatch(/^cubic-bezier\(/);
+  });
+
+  it('approximates polynomial easings closely', () => {
+    const quart = fitCubicBezier(easeInOutQuart);
+    const cubic = fitCubicBezier(easeOutCubic);
+
+    expect(quart.maxError).toBeLessThan(.05);
+    expect(quart.rmsError).toBeLessThan(quart.maxError);
+    expect(cubic.maxError).toBeLessThan(.01);
+    expect(cubic.easing(.5, 0, 1, 1)).toBeCloseTo(easeOutCubic(.5, 0, 1, 1), 1);
+  });
+
+  it('keeps the x coordinates valid for CSS', () => {
+    const { x1, x2 } = fitCubicBezier(spring());
+
+    [x1, x2].forEach(x => {
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThanOrEqual(1);
+    });
+  });
+});
+
+describe('fitPiecewiseBezier', () => {
+  it('uses a single segment when one is good enough', () => {
+    expect(fitPiecewiseBezier(easeOutCubic).segments).toHaveLength(1);
+  });
+
+  it('adds segments until the curve is within the tolerance', () => {
+    const easing = spring({ stiffness: 180, damping: 12 });
+    const single = fitCubicBezier(easing);
+    const piecewise = fitPiecewiseBezier(easing, { tolerance: .02, maxSegments: 16 });
+
+    expect(piecewise.segments.length).toBeGreaterThan(1);
+    expect(piecewise.maxError).toBeLessThan(single.maxError);
+    expect(piecewise.maxError).toBeLessThan(.03);
+    expect(piecewise.segments[0].from).toBe(0);
+    expect(piecewise.segments[piecewise.segments.length - 1].to).toBe(1);
+  });
+
+  it('rejects a tolerance that is not positive', () => {
+    expect(() => fitPiecewiseBezier(easeOutCubic, { tolerance: 0 })).toThrow('fitPiecewiseBezier() needs a positive tolerance and at least one segment, got 0 and 8');
+  });
+});
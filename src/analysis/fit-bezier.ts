@@ -0,0 +1,208 @@
+import { cubicBezier } from '../easings/cubic-bezier';
+import { normalizedEasing, NormalizedEasing } from '../easings/normalized-easing';
+import { EasingFunction } from '../types/easing-function';
+import {
+  BezierFit,
+  BezierPoints,
+  BezierSegment,
+  FitError,
+  PiecewiseBezierFit,
+  PiecewiseBezierOptions
+} from '../types/bezier-fit';
+
+type Vector = number[];
+
+const FIT_SAMPLES = 60;
+const ERROR_SAMPLES = 200;
+const SIMPLEX_ITERATIONS = 400;
+const SIMPLEX_TOLERANCE = 1e-10;
+const SIMPLEX_RESTARTS = 3;
+
+const STARTING_POINTS: Vector[] = [
+  [.42, 0, .58, 1],
+  [.25, .1, .25, 1],
+  [.42, 0, 1, 1],
+  [0, 0, .58, 1],
+  [.5, -.5, .5, 1.5]
+];
+
+const clampX = (x: number) => Math.min(1, Math.max(0, x));
+
+const toPoints = ([x1, y1, x2, y2]: Vector): BezierPoints => ({ x1: clampX(x1), y1: y1, x2: clampX(x2), y2: y2 });
+
+const bezierOf = ({ x1, y1, x2, y2 }: BezierPoints): NormalizedEasing => {
+  const easing = cubicBezier(x1, y1, x2, y2);
+
+  return progress => easing(progress, 0, 1, 1);
+};
+
+const progressions = (count: number) => Array.from({ length: count + 1 }, (_, index) => index / count);
+
+const fitErrorOf = (original: NormalizedEasing, fitted: NormalizedEasing): FitError => {
+  const errors = progressions(ERROR_SAMPLES).map(progress => Math.abs(fitted(progress) - original(progress)));
+
+  return {
+    maxError: Math.max(...errors),
+    rmsError: Math.sqrt(errors.reduce((sum, error) => sum + error * error, 0) / errors.length)
+  };
+};
+
+/**
+ * Nelder-Mead downhill simplex, which needs no derivatives.
+ */
+const minimize = (cost: (vector: Vector) => number, start: Vector): Vector => {
+  let simplex = [start, ...start.map((_, axis) => start.map((value, index) => index === axis ? value + .1 : value))]
+    .map(vector => ({ vector: vector, cost: cost(vector) }));
+
+  const towards = (from: Vector, to: Vector, factor: number) => from.map((value, index) => value + (to[index] - value) * factor);
+
+  for (let i = 0; i < SIMPLEX_ITERATIONS; i++) {
+    simplex.sort((a, b) => a.cost - b.cost);
+
+    const best = simplex[0];
+    const worst = simplex[simplex.length - 1];
+
+    if (worst.cost - best.cost < SIMPLEX_TOLERANCE) break;
+
+    const centroid = start.map((_, index) => simplex.slice(0, -1).reduce((sum, point) => sum + point.vector[index], 0) / (simplex.length - 1));
+    const reflected = towards(worst.vector, centroid, 2);
+    const reflectedCost = cost(reflected);
+
+    if (reflectedCost < best.cost) {
+      const expanded = towards(worst.vector, centroid, 3);
+      const expandedCost = cost(expanded);
+
+      simplex[simplex.length - 1] = expandedCost < reflectedCost
+        ? { vector: expanded, cost: expandedCost }
+        : { vector: reflected, cost: reflectedCost };
+    } else if (reflectedCost < simplex[simplex.length - 2].cost) {
+      simplex[simplex.length - 1] = { vector: reflected, cost: reflectedCost };
+    } else {
+      const contracted = towards(worst.vector, centroid, .5);
+      const contractedCost = cost(contracted);
+
+      if (contractedCost < worst.cost) {
+        simplex[simplex.length - 1] = { vector: contracted, cost: contractedCost };
+      } else {
+        simplex = simplex.map(point => {
+          const shrunk = towards(best.vector, point.vector, .5);
+          return { vector: shrunk, cost: cost(shrunk) };
+        });
+      }
+    }
+  }
+
+  return simplex.reduce((best, point) => point.cost < best.cost ? point : best).vector;
+};
+
+const fitPoints = (ease: NormalizedEasing): BezierPoints => {
+  const samples = progressions(FIT_SAMPLES).map(progress => ({ progress: progress, value: ease(progress) }));
+
+  // Clamped x coordinates alone leave the cost flat outside [0, 1], so the
+  // distance to the valid range is added to lead the simplex back.
+  const cost = (vector: Vector) => {
+    const fitted = bezierOf(toPoints(vector));
+    const outside = [vector[0], vector[2]].reduce((sum, x) => sum + Math.pow(x - clampX(x), 2), 0);
+
+    return outside + samples.reduce((sum, { progress, value }) => sum + Math.pow(fitted(progress) - value, 2), 0);
+  };
+
+  // Restarting from the result unsticks a simplex that collapsed too early.
+  const fits = STARTING_POINTS.map(start => {
+    let fit = start;
+    for (let i = 0; i < SIMPLEX_RESTARTS; i++) fit = minimize(cost, fit);
+    return fit;
+  });
+  const best = fits.reduce((best, fit) => cost(fit) < cost(best) ? fit : best);
+
+  return toPoints(best);
+};
+
+const round = (value: number) => Number(value.toFixed(3));
+
+/**
+ * The CSS `cubic-bezier()` closest to `easing`, by least squares on the
+ * vertical distance.
+ */
+export const fitCubicBezier = (easing: EasingFunction): BezierFit => {
+  const ease: NormalizedEasing = progress => easing(progress, 0, 1, 1);
+  const { x1, y1, x2, y2 } = fitPoints(ease);
+  const points = { x1: round(x1), y1: round(y1), x2: round(x2), y2: round(y2) };
+  const fitted = bezierOf(points);
+
+  return {
+    ...points,
+    ...fitErrorOf(ease, fitted),
+    easing: normalizedEasing(fitted),
+    css: `cubic-bezier(${points.x1}, ${points.y1}, ${points.x2}, ${points.y2})`
+  };
+};
+
+const fitSegment = (ease: NormalizedEasing, from: number, to: number): BezierSegment => {
+  const start = ease(from);
+  const end = ease(to);
+  const delta = end - start;
+
+  const points = fitPoints(progress => delta !== 0 ? (ease(from + (to - from) * progress) - start) / delta : 0);
+
+  return { ...points, from: from, to: to, start: start, end: end };
+};
+
+const segmentsEasing = (segments: BezierSegment[]): NormalizedEasing => {
+  const beziers = segments.map(bezierOf);
+
+  return progress => {
+    let index = 0;
+    while (index < segments.length - 1 && progress >= segments[index].to) index++;
+
+    const { from, to, start, end } = segments[index];
+
+    return start + (end - start) * beziers[index]((progress - from) / (to - from));
+  };
+};
+
+/**
+ * Splits the curve into as few cubic-bezier segments as it takes to stay
+ * within `tolerance`, halving the worst segment until it does or
+ * `maxSegments` is reached.
+ */
+export const fitPiecewiseBezier = (
+  easing: EasingFunction,
+  { tolerance = 1e-2, maxSegments = 8 }: PiecewiseBezierOptions = {}
+): PiecewiseBezierFit => {
+  if (!(tolerance > 0) || !(maxSegments >= 1)) {
+    throw new Error(`fitPiecewiseBezier() needs a positive tolerance and at least one segment, got ${tolerance} and ${maxSegments}`);
+  }
+
+  const ease: NormalizedEasing = progress => easing(progress, 0, 1, 1);
+  const segmentError = (segment: BezierSegment) => {
+    const fitted = segmentsEasing([{ ...segment, from: 0, to: 1 }]);
+    const scaled: NormalizedEasing = progress => ease(segment.from + (segment.to - segment.from) * progress);
+
+    return fitErrorOf(scaled, fitted).maxError;
+  };
+
+  const segments = [fitSegment(ease, 0, 1)];
+  const errors = [segmentError(segments[0])];
+
+  while (segments.length < maxSegments) {
+    const worst = errors.indexOf(Math.max(...errors));
+
+    if (errors[worst] <= tolerance) break;
+
+    const { from, to } = segments[worst];
+    const middle = (from + to) / 2;
+    const halves = [fitSegment(ease, from, middle), fitSegment(ease, middle, to)];
+
+    segments.splice(worst, 1, ...halves);
+    errors.splice(worst, 1, ...halves.map(segmentError));
+  }
+
+  const fitted = segmentsEasing(segments);
+
+  return {
+    segments: segments,
+    ...fitErrorOf(ease, fitted),
+    easing: normalizedEasing(fitted)
+  };
+};
@@ -0,0 +1,59 @@
+import { easingFunctions } from '../configs/easing-functions';
+import { createManualClock } from '../frames/manual-clock';
+import { elapsedFrames } from '../operators/tween';
+import { FrameReport } from '../types/frame-report';
+import { diagnoseFrames, frameReport } from './frame-report';
+import { collect, linear } from '../testing/spec-helpers';
+
+const { easeInQuad } = easingFunctions;
+
+describe('frameReport', () => {
+  it('measures frame intervals and counts dropped frames', () => {
+    const report = frameReport([0, 16, 48, 64, 80, 100], 100, linear, { frameInterval: 16 });
+
+    expect(report.frameCount).toBe(6);
+    expect(report.meanFrameInterval).toBe(20);
+    expect(report.maxFrameInterval).toBe(32);
+    expect(report.droppedFrames).toBe(1);
+  });
+
+  it('finds no deviation where straight lines between frames match the curve', () => {
+    const report = frameReport([0, 50, 100], 100, linear);
+
+    expect(report.maxDeviation).toBeCloseTo(0);
+    expect(report.rmsDeviation).toBeCloseTo(0);
+  });
+
+  it('measures how far the effective curve cuts corners', () => {
+    const report = frameReport([0, 100], 100, easeInQuad);
+
+    expect(report.maxDeviation).toBeCloseTo(.25);
+    expect(report.rmsDeviation).toBeGreaterThan(0);
+    expect(report.rmsDeviation).toBeLessThan(report.maxDeviation);
+  });
+
+  it('deviates less with more frames', () => {
+    const sparse = frameReport([0, 50, 100], 100, easeInQuad);
+    const dense = frameReport([0, 25, 50, 75, 100], 100, easeInQuad);
+
+    expect(dense.maxDeviation).toBeLessThan(sparse.maxDeviation);
+  });
+});
+
+describe('diagnoseFrames', () => {
+  it('reports once the run completes', () => {
+    const clock = createManualClock();
+    const reports: FrameReport[] = [];
+
+    elapsedFrames(100, clock.frames).pipe(diagnoseFrames(100, linear, { frameInterval: 20 })).subscribe(collect(reports));
+
+    clock.tick(20);
+    clock.tick(60);
+    expect(reports).toEqual([]);
+
+    clock.tick(20);
+    expect(reports).toHaveLength(1);
+    expect(reports[0].frameCount).toBe(4);
+    expect(reports[0].droppedFrames).toBe(2);
+  });
+});
@@ -0,0 +1,60 @@
+import { OperatorFunction } from 'rxjs';
+import { map, reduce } from 'rxjs/operators';
+import { EasingFunction } from '../types/easing-function';
+import { FrameReport, FrameReportOptions } from '../types/frame-report';
+
+/**
+ * Compares the elapsed times at which frames were rendered with the optimal
+ * curve, which is sampled every millisecond. In between frames the effective
+ * curve is the straight line the eye interpolates.
+ */
+export const frameReport = (
+  elapsedTimes: number[],
+  duration: number,
+  easing: EasingFunction,
+  { frameInterval = 1000 / 60 }: FrameReportOptions = {}
+): FrameReport => {
+  if (!(frameInterval > 0)) {
+    throw new Error(`frameReport() needs a positive frame interval, got ${frameInterval}`);
+  }
+
+  const intervals = elapsedTimes.slice(1).map((elapsed, index) => elapsed - elapsedTimes[index]);
+  const ease = (elapsed: number) => easing(elapsed, 0, 1, duration);
+
+  const deviations: number[] = [];
+  let frame = 0;
+
+  for (let elapsed = 0; elapsed <= duration && elapsedTimes.length > 1; elapsed++) {
+    while (frame < elapsedTimes.length - 2 && elapsedTimes[frame + 1] < elapsed) frame++;
+
+    const from = elapsedTimes[frame];
+    const to = elapsedTimes[frame + 1];
+    const position = to > from ? Math.min(1, Math.max(0, (elapsed - from) / (to - from))) : 1;
+    const effective = ease(from) + (ease(to) - ease(from)) * position;
+
+    deviations.push(Math.abs(effective - ease(elapsed)));
+  }
+
+  return {
+    frameCount: elapsedTimes.length,
+    meanFrameInterval: intervals.length ? intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length : 0,
+    maxFrameInterval: Math.max(0, ...intervals),
+    droppedFrames: intervals.reduce((dropped, interval) => dropped + Math.max(0, Math.round(interval / frameInterval) - 1), 0),
+    maxDeviation: Math.max(0, ...deviations),
+    rmsDeviation: deviations.length ? Math.sqrt(deviations.reduce((sum, deviation) => sum + deviation * deviation, 0) / deviations.length) : 0
+  };
+};
+
+/**
+ * Collects the elapsed times of a run, like the ones `elapsedFrames` emits,
+ * and emits a single report once the run completes.
+ */
+export const diagnoseFrames = (
+  duration: number,
+  easing: EasingFunction,
+  options?: FrameReportOptions
+): OperatorFunction<number, FrameReport> =>
+  source => source.pipe(
+    reduce((elapsedTimes, elapsed) => [...elapsedTimes, elapsed], [] as number[]),
+    map(elapsedTimes => frameReport(elapsedTimes, duration, easing, options))
+  );
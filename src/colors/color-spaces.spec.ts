@@ -0,0 +1,48 @@
+import { Color } from '../types/color';
+import { mixColors, oklabToRgb, rgbToOklab } from './color-spaces';
+import { formatColor } from './format-color';
+import { parseColor } from './parse-color';
+
+const mix = (from: string, to: string, progress: number, space: Parameters<typeof mixColors>[3]) =>
+  formatColor(mixColors(parseColor(from), parseColor(to), progress, space));
+
+describe('mixColors', () => {
+  it('mixes channels linearly in srgb', () => {
+    expect(mix('#000', '#fff', .5, 'srgb')).toBe('rgb(128, 128, 128)');
+  });
+
+  it('mixes light linearly in linear-rgb', () => {
+    expect(mix('#000', '#fff', .5, 'linear-rgb')).toBe('rgb(188, 188, 188)');
+  });
+
+  it('takes the shorter way around the hue circle in hsl', () => {
+    expect(mix('hsl(340, 100%, 50%)', 'hsl(20, 100%, 50%)', .5, 'hsl')).toBe('rgb(255, 0, 0)');
+    expect(mix('#fff', 'hsl(120, 100%, 50%)', .5, 'hsl')).toBe('rgb(159, 223, 159)');
+  });
+
+  it('mixes perceptually in oklab', () => {
+    expect(mix('#000', '#fff', .5, 'oklab')).toBe('rgb(99, 99, 99)');
+  });
+
+  it('mixes with premultiplied alpha', () => {
+    expect(mix('rgba(255, 0, 0, 0)', '#0000ff', .5, 'srgb')).toBe('rgba(0, 0, 255, 0.5)');
+  });
+
+  it('returns the end colors at 0 and 1', () => {
+    (['srgb', 'linear-rgb', 'hsl', 'oklab'] as const).forEach(space => {
+      expect(mix('#3a7bd5', '#00d2ff', 0, space)).toBe(formatColor(parseColor('#3a7bd5')));
+      expect(mix('#3a7bd5', '#00d2ff', 1, space)).toBe(formatColor(parseColor('#00d2ff')));
+    });
+  });
+});
+
+describe('oklab', () => {
+  it('round trips srgb colors', () => {
+    const color: Omit<Color, 'alpha'> = { r: .2, g: .6, b: .9 };
+    const { r, g, b } = oklabToRgb(rgbToOklab(color));
+
+    expect(r).toBeCloseTo(color.r, 6);
+    expect(g).toBeCloseTo(color.g, 6);
+    expect(b).toBeCloseTo(color.b, 6);
+  });
+});
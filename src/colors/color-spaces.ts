@@ -0,0 +1,140 @@
+import { Color, ColorSpace } from '../types/color';
+
+type Rgb = Omit<Color, 'alpha'>;
+
+interface Hsl {
+  h: number;
+  s: number;
+  l: number;
+}
+
+type Coordinates = [number, number, number];
+
+interface Space {
+  fromRgb: (color: Rgb) => Coordinates;
+  toRgb: (coordinates: Coordinates) => Rgb;
+  hue?: number;
+}
+
+export const hslToRgb = ({ h, s, l }: Hsl): Rgb => {
+  const hue = ((h % 360) + 360) % 360;
+  const chroma = (1 - Math.abs(2 * l - 1)) * s;
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+
+    return l - chroma / 2 * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+
+  return { r: channel(0), g: channel(8), b: channel(4) };
+};
+
+/**
+ * Achromatic colors come back with a hue of NaN, as their hue is meaningless.
+ */
+export const rgbToHsl = ({ r, g, b }: Rgb): Hsl => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const chroma = max - min;
+  const l = (max + min) / 2;
+
+  if (chroma === 0) return { h: NaN, s: 0, l: l };
+
+  const s = chroma / (1 - Math.abs(2 * l - 1));
+  const h = max === r
+    ? ((g - b) / chroma) % 6
+    : max === g ? (b - r) / chroma + 2 : (r - g) / chroma + 4;
+
+  return { h: (h * 60 + 360) % 360, s: s, l: l };
+};
+
+const toLinear = (channel: number) => {
+  const magnitude = Math.abs(channel);
+
+  return Math.sign(channel) * (magnitude <= .04045 ? magnitude / 12.92 : Math.pow((magnitude + .055) / 1.055, 2.4));
+};
+
+const fromLinear = (channel: number) => {
+  const magnitude = Math.abs(channel);
+
+  return Math.sign(channel) * (magnitude <= .0031308 ? magnitude * 12.92 : 1.055 * Math.pow(magnitude, 1 / 2.4) - .055);
+};
+
+export const rgbToOklab = ({ r, g, b }: Rgb): Coordinates => {
+  const [lr, lg, lb] = [r, g, b].map(toLinear);
+
+  const l = Math.cbrt(.4122214708 * lr + .5363325363 * lg + .0514459929 * lb);
+  const m = Math.cbrt(.2119034982 * lr + .6806995451 * lg + .1073969566 * lb);
+  const s = Math.cbrt(.0883024619 * lr + .2817188376 * lg + .6299787005 * lb);
+
+  return [
+    .2104542553 * l + .7936177850 * m - .0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + .4505937099 * s,
+    .0259040371 * l + .7827717662 * m - .8086757660 * s
+  ];
+};
+
+export const oklabToRgb = ([lightness, a, b]: Coordinates): Rgb => {
+  const l = Math.pow(lightness + .3963377774 * a + .2158037573 * b, 3);
+  const m = Math.pow(lightness - .1055613458 * a - .0638541728 * b, 3);
+  const s = Math.pow(lightness - .0894841775 * a - 1.2914855480 * b, 3);
+
+  return {
+    r: fromLinear(4.0767416621 * l - 3.3077115913 * m + .2309699292 * s),
+    g: fromLinear(-1.2684380046 * l + 2.6097574011 * m - .3413193965 * s),
+    b: fromLinear(-.0041960863 * l - .7034186147 * m + 1.7076147010 * s)
+  };
+};
+
+const spaces: Record<ColorSpace, Space> = {
+  'srgb': {
+    fromRgb: ({ r, g, b }) => [r, g, b],
+    toRgb: ([r, g, b]) => ({ r: r, g: g, b: b })
+  },
+  'linear-rgb': {
+    fromRgb: ({ r, g, b }) => [toLinear(r), toLinear(g), toLinear(b)],
+    toRgb: ([r, g, b]) => ({ r: fromLinear(r), g: fromLinear(g), b: fromLinear(b) })
+  },
+  'hsl': {
+    fromRgb: color => {
+      const { h, s, l } = rgbToHsl(color);
+
+      return [h, s, l];
+    },
+    toRgb: ([h, s, l]) => hslToRgb({ h: h, s: s, l: l }),
+    hue: 0
+  },
+  'oklab': {
+    fromRgb: rgbToOklab,
+    toRgb: oklabToRgb
+  }
+};
+
+const mixHue = (from: number, to: number, progress: number): number => {
+  if (isNaN(from)) return isNaN(to) ? 0 : to;
+  if (isNaN(to)) return from;
+
+  const difference = ((to - from) % 360 + 540) % 360 - 180;
+
+  return from + difference * progress;
+};
+
+/**
+ * Mixes two colors with premultiplied alpha, taking the shorter way around the
+ * hue circle in `hsl`. A progress outside of 0 and 1 extrapolates.
+ */
+export const mixColors = (from: Color, to: Color, progress: number, space: ColorSpace = 'srgb'): Color => {
+  const { fromRgb, toRgb, hue } = spaces[space];
+  const alpha = from.alpha + (to.alpha - from.alpha) * progress;
+  const start = fromRgb(from);
+  const end = fromRgb(to);
+
+  const mixed = start.map((value, index): number => {
+    if (index === hue) return mixHue(value, end[index], progress);
+
+    const premultiplied = value * from.alpha + (end[index] * to.alpha - value * from.alpha) * progress;
+
+    return alpha === 0 ? 0 : premultiplied / alpha;
+  }) as Coordinates;
+
+  return { ...toRgb(mixed), alpha: alpha };
+};
@@ -0,0 +1,11 @@
+import { Color } from '../types/color';
+
+const channel = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 255);
+
+export const formatColor = ({ r, g, b, alpha }: Color): string => {
+  const opacity = Math.round(Math.min(1, Math.max(0, alpha)) * 1000) / 1000;
+
+  return opacity === 1
+    ? `rgb(${channel(r)}, ${channel(g)}, ${channel(b)})`
+    : `rgba(${channel(r)}, ${channel(g)}, ${channel(b)}, ${opacity})`;
+};
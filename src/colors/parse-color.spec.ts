@@ -0,0 +1,35 @@
+import { parseColor } from './parse-color';
+
+describe('parseColor', () => {
+  it('parses hex colors of every length', () => {
+    expect(parseColor('#f00')).toEqual({ r: 1, g: 0, b: 0, alpha: 1 });
+    expect(parseColor('#f008')).toEqual({ r: 1, g: 0, b: 0, alpha: 136 / 255 });
+    expect(parseColor('#00FF00')).toEqual({ r: 0, g: 1, b: 0, alpha: 1 });
+    expect(parseColor('#0000ff80')).toEqual({ r: 0, g: 0, b: 1, alpha: 128 / 255 });
+  });
+
+  it('parses legacy and modern rgb() syntax', () => {
+    expect(parseColor('rgb(255, 0, 51)')).toEqual({ r: 1, g: 0, b: .2, alpha: 1 });
+    expect(parseColor('rgba(255, 0, 51, .5)')).toEqual({ r: 1, g: 0, b: .2, alpha: .5 });
+    expect(parseColor('rgb(100% 0% 20% / 50%)')).toEqual({ r: 1, g: 0, b: .2, alpha: .5 });
+  });
+
+  it('parses hsl() with hue units', () => {
+    const red = { r: 1, g: 0, b: 0, alpha: 1 };
+    const close = (color: typeof red) => Object.values(color).map(value => Math.round(value * 1000) / 1000);
+
+    expect(close(parseColor('hsl(0, 100%, 50%)'))).toEqual(close(red));
+    expect(close(parseColor('hsl(1turn 100% 50%)'))).toEqual(close(red));
+    expect(close(parseColor('hsla(120deg, 100%, 25%, .5)'))).toEqual([0, .5, 0, .5]);
+  });
+
+  it.each([
+    ['red', 'expected a hex, rgb() or hsl() color'],
+    ['#12', 'expected 3, 4, 6 or 8 hex digits'],
+    ['rgb(1, 2)', 'expected 3 channels, got 2'],
+    ['rgb(1, 2, 3 / 1)', 'cannot mix "," and "/"'],
+    ['hsl(10px, 10%, 10%)', 'unexpected "10px"']
+  ])('rejects %s', (css, reason) => {
+    expect(() => parseColor(css)).toThrow(`Invalid CSS color "${css}": ${reason}`);
+  });
+});
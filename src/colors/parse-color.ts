@@ -0,0 +1,89 @@
+import { Color } from '../types/color';
+import { hslToRgb } from './color-spaces';
+
+const HEX = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/;
+const FUNCTION = /^(rgba?|hsla?)\((.*)\)$/;
+const NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/;
+
+const HUE_UNITS: Record<string, number> = {
+  '': 1,
+  'deg': 1,
+  'grad': 360 / 400,
+  'rad': 180 / Math.PI,
+  'turn': 360
+};
+
+const invalid = (css: string, reason: string): Error => new Error(`Invalid CSS color "${css}": ${reason}`);
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const parseHex = (hex: string): Color => {
+  const digits = hex.length <= 4
+    ? hex.split('').map(digit => digit + digit)
+    : hex.match(/../g) as string[];
+  const [r, g, b, alpha = 255] = digits.map(pair => parseInt(pair, 16));
+
+  return { r: r / 255, g: g / 255, b: b / 255, alpha: alpha / 255 };
+};
+
+/**
+ * Splits both the legacy `rgb(1, 2, 3)` and the modern `rgb(1 2 3 / 50%)` syntax.
+ */
+const splitArguments = (css: string, args: string): { channels: string[], alpha?: string } => {
+  const [channelPart, alpha, ...rest] = args.split('/').map(part => part.trim());
+
+  if (rest.length > 0) throw invalid(css, 'more than one "/"');
+
+  const commaSeparated = channelPart.indexOf(',') !== -1;
+  const parts = channelPart.split(commaSeparated ? ',' : /\s+/).map(part => part.trim());
+
+  if (commaSeparated && alpha === undefined && parts.length === 4) {
+    return { channels: parts.slice(0, 3), alpha: parts[3] };
+  }
+
+  if (commaSeparated && alpha !== undefined) throw invalid(css, 'cannot mix "," and "/"');
+
+  return { channels: parts, alpha: alpha };
+};
+
+const parseNumber = (css: string, token: string, units: Record<string, number>): number => {
+  const match = NUMBER.exec(token);
+  const unit = match ? token.slice(match[0].length) : token;
+
+  if (!match || !units.hasOwnProperty(unit)) throw invalid(css, `unexpected "${token}"`);
+
+  return Number(match[0]) * units[unit];
+};
+
+const parseAlpha = (css: string, token: string | undefined): number =>
+  token === undefined ? 1 : clamp(parseNumber(css, token, { '': 1, '%': 1 / 100 }));
+
+export const parseColor = (css: string): Color => {
+  const normalized = css.trim().toLowerCase();
+
+  if (normalized[0] === '#') {
+    if (!HEX.test(normalized)) throw invalid(css, 'expected 3, 4, 6 or 8 hex digits');
+
+    return parseHex(normalized.slice(1));
+  }
+
+  const match = FUNCTION.exec(normalized);
+
+  if (!match) throw invalid(css, 'expected a hex, rgb() or hsl() color');
+
+  const [, name, args] = match;
+  const { channels, alpha } = splitArguments(css, args);
+
+  if (channels.length !== 3) throw invalid(css, `expected 3 channels, got ${channels.length}`);
+
+  if (name[0] === 'r') {
+    const [r, g, b] = channels.map(channel => clamp(parseNumber(css, channel, { '': 1 / 255, '%': 1 / 100 })));
+
+    return { r: r, g: g, b: b, alpha: parseAlpha(css, alpha) };
+  }
+
+  const hue = parseNumber(css, channels[0], HUE_UNITS);
+  const [saturation, lightness] = channels.slice(1).map(channel => clamp(parseNumber(css, channel, { '%': 1 / 100, '': 1 / 100 })));
+
+  return { ...hslToRgb({ h: hue, s: saturation, l: lightness }), alpha: parseAlpha(css, alpha) };
+};
@@ -0,0 +1,15 @@
+import { cubicBezier } from '../easings/cubic-bezier';
+import { steps } from '../easings/steps';
+import { easingRecord } from '../easings/easing-record';
+
+export const cssEasingFunctions = easingRecord({
+  'linear': cubicBezier(0, 0, 1, 1),
+  'ease': cubicBezier(.25, .1, .25, 1),
+  'ease-in': cubicBezier(.42, 0, 1, 1),
+  'ease-out': cubicBezier(0, 0, .58, 1),
+  'ease-in-out': cubicBezier(.42, 0, .58, 1),
+  'step-start': steps(1, 'jump-start'),
+  'step-end': steps(1, 'jump-end')
+});
+
+export type CssEasingName = keyof typeof cssEasingFunctions;
@@ -1,67 +1,46 @@
-import { EasingFunction } from '../types/easing-function';
+import { back, defaultBackOptions } from '../easings/back';
+import { bounce, defaultBounceOptions } from '../easings/bounce';
+import { defaultElasticOptions, elastic } from '../easings/elastic';
+import { power } from '../easings/power';
+import { easingRecord } from '../easings/easing-record';
 
-const easeOutBounce: EasingFunction = function (elapsed, start, delta, duration) {
-  if ((elapsed /= duration) < (1 / 2.75)) {
-    return delta * (7.5625 * elapsed * elapsed) + start;
-  } else if (elapsed < (2 / 2.75)) {
-    return delta * (7.5625 * (elapsed -= (1.5 / 2.75)) * elapsed + .75) + start;
-  } else if (elapsed < (2.5 / 2.75)) {
-    return delta * (7.5625 * (elapsed -= (2.25 / 2.75)) * elapsed + .9375) + start;
-  } else {
-    return delta * (7.5625 * (elapsed -= (2.625 / 2.75)) * elapsed + .984375) + start;
-  }
+/**
+ * The parameters the families behind `easingFunctions` are created with.
+ */
+export const presetParameters = {
+  quad: { exponent: 2 },
+  cubic: { exponent: 3 },
+  quart: { exponent: 4 },
+  quint: { exponent: 5 },
+  elastic: defaultElasticOptions,
+  back: defaultBackOptions,
+  bounce: defaultBounceOptions
 };
 
-const easeInBounce: EasingFunction = function (elapsed, start, delta, duration) {
-  return delta - easeOutBounce(duration - elapsed, 0, delta, duration) + start;
+const powers = {
+  quad: power(presetParameters.quad.exponent),
+  cubic: power(presetParameters.cubic.exponent),
+  quart: power(presetParameters.quart.exponent),
+  quint: power(presetParameters.quint.exponent)
 };
 
-const easeInOutBounce: EasingFunction = function (elapsed, start, delta, duration) {
-  if (elapsed < duration / 2) return easeInBounce(elapsed * 2, 0, delta, duration) * .5 + start;
-  return easeOutBounce(elapsed * 2 - duration, 0, delta, duration) * .5 + delta * .5 + start;
-};
+const elasticPreset = elastic(presetParameters.elastic);
+const backPreset = back(presetParameters.back);
+const bouncePreset = bounce(presetParameters.bounce);
 
-export const easingFunctions: Record<string, EasingFunction> = {
-  easeInQuad: function (elapsed, start, delta, duration) {
-    return delta * (elapsed /= duration) * elapsed + start;
-  },
-  easeOutQuad: function (elapsed, start, delta, duration) {
-    return -delta * (elapsed /= duration) * (elapsed - 2) + start;
-  },
-  easeInOutQuad: function (elapsed, start, delta, duration) {
-    if ((elapsed /= duration / 2) < 1) return delta / 2 * elapsed * elapsed + start;
-    return -delta / 2 * ((--elapsed) * (elapsed - 2) - 1) + start;
-  },
-  easeInCubic: function (elapsed, start, delta, duration) {
-    return delta * (elapsed /= duration) * elapsed * elapsed + start;
-  },
-  easeOutCubic: function (elapsed, start, delta, duration) {
-    return delta * ((elapsed = elapsed / duration - 1) * elapsed * elapsed + 1) + start;
-  },
-  easeInOutCubic: function (elapsed, start, delta, duration) {
-    if ((elapsed /= duration / 2) < 1) return delta / 2 * elapsed * elapsed * elapsed + start;
-    return delta / 2 * ((elapsed -= 2) * elapsed * elapsed + 2) + start;
-  },
-  easeInQuart: function (elapsed, start, delta, duration) {
-    return delta * (elapsed /= duration) * elapsed * elapsed * elapsed + start;
-  },
-  easeOutQuart: function (elapsed, start, delta, duration) {
-    return -delta * ((elapsed = elapsed / duration - 1) * elapsed * elapsed * elapsed - 1) + start;
-  },
-  easeInOutQuart: function (elapsed, start, delta, duration) {
-    if ((elapsed /= duration / 2) < 1) return delta / 2 * elapsed * elapsed * elapsed * elapsed + start;
-    return -delta / 2 * ((elapsed -= 2) * elapsed * elapsed * elapsed - 2) + start;
-  },
-  easeInQuint: function (elapsed, start, delta, duration) {
-    return delta * (elapsed /= duration) * elapsed * elapsed * elapsed * elapsed + start;
-  },
-  easeOutQuint: function (elapsed, start, delta, duration) {
-    return delta * ((elapsed = elapsed / duration - 1) * elapsed * elapsed * elapsed * elapsed + 1) + start;
-  },
-  easeInOutQuint: function (elapsed, start, delta, duration) {
-    if ((elapsed /= duration / 2) < 1) return delta / 2 * elapsed * elapsed * elapsed * elapsed * elapsed + start;
-    return delta / 2 * ((elapsed -= 2) * elapsed * elapsed * elapsed * elapsed + 2) + start;
-  },
+export const easingFunctions = easingRecord({
+  easeInQuad: powers.quad.in,
+  easeOutQuad: powers.quad.out,
+  easeInOutQuad: powers.quad.inOut,
+  easeInCubic: powers.cubic.in,
+  easeOutCubic: powers.cubic.out,
+  easeInOutCubic: powers.cubic.inOut,
+  easeInQuart: powers.quart.in,
+  easeOutQuart: powers.quart.out,
+  easeInOutQuart: powers.quart.inOut,
+  easeInQuint: powers.quint.in,
+  easeOutQuint: powers.quint.out,
+  easeInOutQuint: powers.quint.inOut,
   easeInSine: function (elapsed, start, delta, duration) {
     return -delta * Math.cos(elapsed / duration * (Math.PI / 2)) + delta + start;
   },
@@ -93,42 +72,15 @@ export const easingFunctions: Record<string, EasingFunction> = {
     if ((elapsed /= duration / 2) < 1) return -delta / 2 * (Math.sqrt(1 - elapsed * elapsed) - 1) + start;
     return delta / 2 * (Math.sqrt(1 - (elapsed -= 2) * elapsed) + 1) + start;
   },
-  easeInElastic: function (elapsed, start, delta, duration) {
-    var s = 1.70158; var p = 0; var a = delta;
-    if (elapsed == 0) return start; if ((elapsed /= duration) == 1) return start + delta; if (!p) p = duration * .3;
-    if (a < Math.abs(delta)) { a = delta; var s = p / 4; }
-    else var s = p / (2 * Math.PI) * Math.asin(delta / a);
-    return -(a * Math.pow(2, 10 * (elapsed -= 1)) * Math.sin((elapsed * duration - s) * (2 * Math.PI) / p)) + start;
-  },
-  easeOutElastic: function (elapsed, start, delta, duration) {
-    var s = 1.70158; var p = 0; var a = delta;
-    if (elapsed == 0) return start; if ((elapsed /= duration) == 1) return start + delta; if (!p) p = duration * .3;
-    if (a < Math.abs(delta)) { a = delta; var s = p / 4; }
-    else var s = p / (2 * Math.PI) * Math.asin(delta / a);
-    return a * Math.pow(2, -10 * elapsed) * Math.sin((elapsed * duration - s) * (2 * Math.PI) / p) + delta + start;
-  },
-  easeInOutElastic: function (elapsed, start, delta, duration) {
-    var s = 1.70158; var p = 0; var a = delta;
-    if (elapsed == 0) return start; if ((elapsed /= duration / 2) == 2) return start + delta; if (!p) p = duration * (.3 * 1.5);
-    if (a < Math.abs(delta)) { a = delta; var s = p / 4; }
-    else var s = p / (2 * Math.PI) * Math.asin(delta / a);
-    if (elapsed < 1) return -.5 * (a * Math.pow(2, 10 * (elapsed -= 1)) * Math.sin((elapsed * duration - s) * (2 * Math.PI) / p)) + start;
-    return a * Math.pow(2, -10 * (elapsed -= 1)) * Math.sin((elapsed * duration - s) * (2 * Math.PI) / p) * .5 + delta + start;
-  },
-  easeInBack: function (elapsed, start, delta, duration, s) {
-    if (s == undefined) s = 1.70158;
-    return delta * (elapsed /= duration) * elapsed * ((s + 1) * elapsed - s) + start;
-  },
-  easeOutBack: function (elapsed, start, delta, duration, s) {
-    if (s == undefined) s = 1.70158;
-    return delta * ((elapsed = elapsed / duration - 1) * elapsed * ((s + 1) * elapsed + s) + 1) + start;
-  },
-  easeInOutBack: function (elapsed, start, delta, duration, s) {
-    if (s == undefined) s = 1.70158;
-    if ((elapsed /= duration / 2) < 1) return delta / 2 * (elapsed * elapsed * (((s *= (1.525)) + 1) * elapsed - s)) + start;
-    return delta / 2 * ((elapsed -= 2) * elapsed * (((s *= (1.525)) + 1) * elapsed + s) + 2) + start;
-  },
-  easeInBounce: easeInBounce,
-  easeOutBounce: easeOutBounce,
-  easeInOutBounce: easeInOutBounce
-};
+  easeInElastic: elasticPreset.in,
+  easeOutElastic: elasticPreset.out,
+  easeInOutElastic: elasticPreset.inOut,
+  easeInBack: backPreset.in,
+  easeOutBack: backPreset.out,
+  easeInOutBack: backPreset.inOut,
+  easeInBounce: bouncePreset.in,
+  easeOutBounce: bouncePreset.out,
+  easeInOutBounce: bouncePreset.inOut
+});
+
+export type EasingName = keyof typeof easingFunctions;
@@ -0,0 +1,55 @@
+import { EasingDefinition, EasingDirection } from '../types/easing-registry';
+import { createEasingRegistry } from '../registry/easing-registry';
+import { CssEasingName, cssEasingFunctions } from './css-easing-functions';
+import { EasingName, easingFunctions, presetParameters } from './easing-functions';
+
+const OVERSHOOTING_FAMILIES = ['elastic', 'back'];
+
+const familyParameters: Record<string, Record<string, number>> = presetParameters;
+
+const CSS_DIRECTIONS: Record<CssEasingName, EasingDirection> = {
+  'linear': 'inOut',
+  'ease': 'inOut',
+  'ease-in': 'in',
+  'ease-out': 'out',
+  'ease-in-out': 'inOut',
+  'step-start': 'in',
+  'step-end': 'out'
+};
+
+/**
+ * Reads family and direction off names like `easeInOutQuad`, which also gives
+ * them their CSS-style alias `ease-in-out-quad`.
+ */
+const builtInDefinition = (name: EasingName): EasingDefinition => {
+  const [, direction, family] = /^ease(InOut|In|Out)(\w+)$/.exec(name) as RegExpExecArray;
+  const familyName = family.toLowerCase();
+
+  return {
+    easing: easingFunctions[name],
+    family: familyName,
+    direction: direction === 'InOut' ? 'inOut' : direction === 'In' ? 'in' : 'out',
+    overshoots: OVERSHOOTING_FAMILIES.includes(familyName),
+    parameters: familyParameters[familyName] ?? {},
+    aliases: [name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)]
+  };
+};
+
+const cssDefinition = (name: CssEasingName): EasingDefinition => ({
+  easing: cssEasingFunctions[name],
+  family: 'css',
+  direction: CSS_DIRECTIONS[name],
+  overshoots: false
+});
+
+const definitions = {} as Record<EasingName | CssEasingName, EasingDefinition>;
+
+(Object.keys(easingFunctions) as EasingName[]).forEach(name => definitions[name] = builtInDefinition(name));
+(Object.keys(cssEasingFunctions) as CssEasingName[]).forEach(name => definitions[name] = cssDefinition(name));
+
+/**
+ * Every easing in `easingFunctions` and `cssEasingFunctions` with its
+ * metadata. `resolveEasing` looks names up here, so easings registered at
+ * runtime can be used by name as well.
+ */
+export const easingRegistry = createEasingRegistry(definitions);
@@ -0,0 +1,118 @@
+import { createManualClock } from '../frames/manual-clock';
+import { animateAttribute, animateScroll, animateStyle } from './bindings';
+import { collect, linear } from '../testing/spec-helpers';
+
+const stubStyledElement = (initial: Record<string, string> = {}) => {
+  const properties = new Map(Object.entries(initial));
+
+  return {
+    properties: properties,
+    element: {
+      style: {
+        getPropertyValue: (name: string) => properties.get(name) ?? '',
+        setProperty: (name: string, value: string) => properties.set(name, value)
+      }
+    } as unknown as HTMLElement
+  };
+};
+
+const stubAttributedElement = (initial: Record<string, string> = {}) => {
+  const attributes = new Map(Object.entries(initial));
+
+  return {
+    attributes: attributes,
+    element: {
+      getAttribute: (name: string) => attributes.get(name) ?? null,
+      setAttribute: (name: string, value: string) => attributes.set(name, value),
+      removeAttribute: (name: string) => attributes.delete(name)
+    } as unknown as Element
+  };
+};
+
+describe('animateStyle', () => {
+  it('adds a default unit that fits the property', () => {
+    const clock = createManualClock();
+    const { element, properties } = stubStyledElement();
+    const values: string[] = [];
+
+    animateStyle(element, 'width', { from: 0, to: 100, duration: 100, easing: linear, frames: clock.frames }).subscribe(collect(values));
+    animateStyle(element, 'opacity', { from: 0, to: 1, duration: 100, easing: 'linear', frames: clock.frames }).subscribe();
+    clock.tick(50);
+
+    expect(values).toEqual(['0px', '50px']);
+    expect(properties.get('opacity')).toBe('0.5');
+  });
+
+  it('keeps the unit of string values and rejects mixed units', () => {
+    const clock = createManualClock();
+    const { element, properties } = stubStyledElement();
+
+    animateStyle(element, 'height', { from: '0%', to: '50%', duration: 100, easing: 'easeInQuad', frames: clock.frames }).subscribe();
+    clock.tick(50);
+
+    expect(properties.get('height')).toBe('12.5%');
+    expect(() => animateStyle(element, 'height', { from: '0%', to: '10px', duration: 100, easing: 'linear' }))
+      .toThrow('Cannot animate between "0%" and "10px" with different units');
+  });
+
+  it('updates a single transform function and leaves the others alone', () => {
+    const clock = createManualClock();
+    const { element, properties } = stubStyledElement({ transform: 'scale(2) rotate(10deg)' });
+
+    animateStyle(element, 'rotate', { from: 0, to: 90, duration: 100, easing: linear, frames: clock.frames }).subscribe();
+    animateStyle(element, 'translateX', { from: 0, to: 10, duration: 100, easing: linear, frames: clock.frames }).subscribe();
+    clock.tick(100);
+
+    expect(properties.get('transform')).toBe('scale(2) rotate(90deg) translateX(10px)');
+  });
+
+  it('restores the initial value when unsubscribed', () => {
+    const clock = createManualClock();
+    const { element, properties } = stubStyledElement({ left: '5px' });
+
+    const subscription = animateStyle(element, 'left', { from: 0, to: 100, duration: 100, easing: linear, frames: clock.frames, restore: true }).subscribe();
+    clock.tick(50);
+    expect(properties.get('left')).toBe('50px');
+
+    subscription.unsubscribe();
+    expect(properties.get('left')).toBe('5px');
+  });
+});
+
+describe('animateAttribute', () => {
+  it('writes attributes and removes ones that did not exist on restore', () => {
+    const clock = createManualClock();
+    const { element, attributes } = stubAttributedElement({ r: '1' });
+    const values: string[] = [];
+
+    animateAttribute(element, 'r', { from: 0, to: 10, duration: 100, easing: linear, frames: clock.frames }).subscribe(collect(values));
+    animateAttribute(element, 'stroke-dashoffset', { from: 100, to: 0, duration: 100, easing: linear, frames: clock.frames, restore: true }).subscribe();
+    clock.tick(50);
+
+    expect(values).toEqual(['0', '5']);
+    expect(attributes.get('stroke-dashoffset')).toBe('50');
+
+    clock.tick(50);
+    expect(attributes.get('r')).toBe('10');
+    expect(attributes.has('stroke-dashoffset')).toBe(false);
+  });
+});
+
+describe('animateScroll', () => {
+  it('scrolls from the current position along an axis', () => {
+    const clock = createManualClock();
+    const element = { scrollTop: 100, scrollLeft: 0 };
+
+    animateScroll(element, { to: 300, duration: 100, easing: linear, frames: clock.frames }).subscribe();
+    clock.tick(50);
+    expect(element.scrollTop).toBe(200);
+
+    animateScroll(element, { axis: 'x', from: 0, to: 40, duration: 100, easing: linear, frames: clock.frames, restore: true }).subscribe();
+    clock.tick(50);
+    expect(element.scrollLeft).toBe(20);
+
+    clock.tick(50);
+    expect(element.scrollTop).toBe(300);
+    expect(element.scrollLeft).toBe(0);
+  });
+});
@@ -0,0 +1,136 @@
+import { defer, Observable } from 'rxjs';
+import { finalize, map, tap } from 'rxjs/operators';
+import { Attributable, BindingOptions, CssValue, Scrollable, ScrollBindingOptions, Styleable } from '../types/dom-binding';
+import { resolveEasing } from '../easings/resolve-easing';
+import { tweenValues } from '../operators/tween';
+
+interface NumberWithUnit {
+  value: number;
+  unit: string;
+}
+
+const CSS_VALUE = /^\s*(-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)([a-z%]*)\s*$/i;
+
+const TRANSFORM_FUNCTIONS = /^(translate[xyz3d]*|rotate[xyz3d]*|scale[xyz3d]*|skew[xy]?|perspective)$/i;
+
+const UNITLESS_PROPERTIES = new Set([
+  'opacity', 'z-index', 'flex-grow', 'flex-shrink', 'font-weight', 'line-height', 'order', 'scale',
+  'fill-opacity', 'stroke-opacity', 'zoom'
+]);
+
+const defaultUnitOf = (property: string): string => {
+  if (/^(rotate|skew)/i.test(property)) return 'deg';
+  if (/^scale/i.test(property) || UNITLESS_PROPERTIES.has(property)) return '';
+
+  return 'px';
+};
+
+const parseCssValue = (value: CssValue, defaultUnit: string): NumberWithUnit => {
+  if (typeof value === 'number') return { value: value, unit: defaultUnit };
+
+  const match = CSS_VALUE.exec(value);
+
+  if (!match) throw new Error(`Cannot animate "${value}", expected a number with an optional unit`);
+
+  return { value: Number(match[1]), unit: match[2] || defaultUnit };
+};
+
+const parseRange = (from: CssValue, to: CssValue, defaultUnit: string): [NumberWithUnit, NumberWithUnit] => {
+  const start = parseCssValue(from, defaultUnit);
+  const end = parseCssValue(to, defaultUnit);
+
+  if (start.unit !== end.unit) {
+    throw new Error(`Cannot animate between "${from}" and "${to}" with different units`);
+  }
+
+  return [start, end];
+};
+
+/**
+ * Tweens between two numbers, hands every value to `apply` and, with
+ * `restore`, undoes it with whatever `snapshot` captured before the first one.
+ */
+const bindNumbers = (
+  { from, to, duration, easing, frames, restore = false }: BindingOptions<number>,
+  apply: (value: number) => void,
+  snapshot: () => () => void
+): Observable<number> => {
+  const easingFunction = resolveEasing(easing);
+
+  return defer(() => {
+    const undo = restore ? snapshot() : () => {};
+
+    return tweenValues({ from: from, to: to, duration: duration, easing: easingFunction, frames: frames }).pipe(
+      tap(apply),
+      finalize(undo)
+    );
+  });
+};
+
+const withTransform = (transform: string, name: string, value: string): string => {
+  const existing = new RegExp(`${name}\\([^)]*\\)`, 'i');
+  const next = `${name}(${value})`;
+
+  if (existing.test(transform)) return transform.replace(existing, next);
+
+  return transform.trim() ? `${transform.trim()} ${next}` : next;
+};
+
+/**
+ * Animates a CSS property, or a single transform function such as
+ * `'translateX'` or `'rotate'` without touching the rest of the transform.
+ * Numbers get `px`, `deg` or no unit depending on the property; strings keep
+ * their own unit. Emits the CSS value of every frame.
+ */
+export const animateStyle = (element: Styleable, property: string, options: BindingOptions): Observable<string> => {
+  const isTransform = TRANSFORM_FUNCTIONS.test(property);
+  const [start, end] = parseRange(options.from, options.to, defaultUnitOf(property));
+  const format = (value: number) => `${value}${start.unit}`;
+  const styleProperty = isTransform ? 'transform' : property;
+
+  return bindNumbers(
+    { ...options, from: start.value, to: end.value },
+    value => element.style.setProperty(styleProperty, isTransform
+      ? withTransform(element.style.getPropertyValue('transform'), property, format(value))
+      : format(value)),
+    () => {
+      const initial = element.style.getPropertyValue(styleProperty);
+      return () => element.style.setProperty(styleProperty, initial);
+    }
+  ).pipe(map(format));
+};
+
+/**
+ * Animates an attribute, for instance an SVG `r` or `stroke-dashoffset`.
+ * Numbers are written without a unit. Emits the attribute value of every frame.
+ */
+export const animateAttribute = (element: Attributable, name: string, options: BindingOptions): Observable<string> => {
+  const [start, end] = parseRange(options.from, options.to, '');
+  const format = (value: number) => `${value}${start.unit}`;
+
+  return bindNumbers(
+    { ...options, from: start.value, to: end.value },
+    value => element.setAttribute(name, format(value)),
+    () => {
+      const initial = element.getAttribute(name);
+      return () => initial === null ? element.removeAttribute(name) : element.setAttribute(name, initial);
+    }
+  ).pipe(map(format));
+};
+
+/**
+ * Scrolls an element along one axis, starting from where it is scrolled to
+ * unless `from` is given. Emits the scroll position of every frame.
+ */
+export const animateScroll = (element: Scrollable, { axis = 'y', from, ...options }: ScrollBindingOptions): Observable<number> => {
+  const key = axis === 'x' ? 'scrollLeft' : 'scrollTop';
+
+  return defer(() => bindNumbers(
+    { ...options, from: from ?? element[key] },
+    value => element[key] = value,
+    () => {
+      const initial = element[key];
+      return () => element[key] = initial;
+    }
+  ));
+};
@@ -0,0 +1,162 @@
+import { cssEasingFunctions } from '../configs/css-easing-functions';
+import { easingFunctions } from '../configs/easing-functions';
+import { createManualClock } from '../frames/manual-clock';
+import { setMotionMode } from '../motion/motion-policy';
+import { animateElement } from './animate-element';
+import { collect } from '../testing/spec-helpers';
+
+const { frames } = createManualClock();
+
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const stubElement = () => {
+  let finish = () => {};
+  let fail = (_: Error) => {};
+
+  const animation = {
+    currentTime: 0 as number | null,
+    finished: new Promise<void>((resolve, reject) => {
+      finish = resolve;
+      fail = reject;
+    }),
+    cancel: jest.fn()
+  };
+
+  const element = { animate: jest.fn(() => animation) };
+
+  return {
+    element: element as unknown as Element,
+    animate: element.animate,
+    animation: animation,
+    finish: () => finish(),
+    fail: (error: Error) => fail(error)
+  };
+};
+
+describe('animateElement', () => {
+  it('passes keyframes, duration and a CSS easing to element.animate', () => {
+    const { element, animate } = stubElement();
+
+    animateElement(element, { from: { opacity: 0 }, to: { opacity: 1 }, duration: 200, easing: cssEasingFunctions['ease-in'], frames: frames }).subscribe();
+
+    expect(animate).toHaveBeenCalledWith([{ opacity: 0 }, { opacity: 1 }], { duration: 200, easing: 'ease-in', fill: 'both' });
+  });
+
+  it('keeps CSS strings and samples other easings into linear()', () => {
+    const first = stubElement();
+    const second = stubElement();
+    const third = stubElement();
+
+    animateElement(first.element, { from: {}, to: {}, duration: 100, easing: 'cubic-bezier(.1, .2, .3, .4)', frames: frames }).subscribe();
+    animateElement(second.element, { from: {}, to: {}, duration: 100, easing: easingFunctions.easeInQuad, frames: frames }).subscribe();
+    animateElement(third.element, { from: {}, to: {}, duration: 100, easing: 'easeOutBack', frames: frames }).subscribe();
+
+    expect(first.animate.mock.calls[0]).toEqual([[{}, {}], expect.objectContaining({ easing: 'cubic-bezier(.1, .2, .3, .4)' })]);
+    expect((second.animate.mock.calls[0] as unknown[])[1]).toEqual(expect.objectContaining({ easing: expect.stringMatching(/^linear\(0, .+, 1\)$/) }));
+    expect((third.animate.mock.calls[0] as unknown[])[1]).toEqual(expect.objectContaining({ easing: expect.stringMatching(/^linear\(/) }));
+  });
+
+  it('emits the progress of the animation and completes when it finishes', async () => {
+    const clock = createManualClock();
+    const { element, animation, finish } = stubElement();
+    const progress: number[] = [];
+    let completed = false;
+
+    animateElement(element, { from: {}, to: {}, duration: 100, easing: 'linear', frames: clock.frames })
+      .subscribe({ next: collect(progress), complete: () => completed = true });
+
+    animation.currentTime = 25;
+    clock.tick(25);
+    animation.currentTime = 50;
+    clock.tick(25);
+    finish();
+    await flushPromises();
+
+    expect(progress).toEqual([0, .25, .5, 1]);
+    expect(completed).toBe(true);
+    expect(animation.cancel).not.toHaveBeenCalled();
+  });
+
+  it('cancels the animation when unsubscribed early', () => {
+    const { element, animation } = stubElement();
+
+    animateElement(element, { from: {}, to: {}, duration: 100, easing: 'linear', frames: frames }).subscribe().unsubscribe();
+
+    expect(animation.cancel).toHaveBeenCalled();
+  });
+
+  it('completes without an error when the animation is cancelled elsewhere', async () => {
+    const clock = createManualClock();
+    const { element, animation, fail } = stubElement();
+    const progress: number[] = [];
+    let completed = false;
+    let error: Error | undefined;
+
+    animateElement(element, { from: {}, to: {}, duration: 100, easing: 'linear', frames: clock.frames })
+      .subscribe({ next: collect(progress), error: e => error = e, complete: () => completed = true });
+
+    animation.currentTime = 25;
+    clock.tick(25);
+    fail(Object.assign(new Error('The animation was cancelled'), { name: 'AbortError' }));
+    await flushPromises();
+
+    expect(progress).toEqual([0, .25]);
+    expect(completed).toBe(true);
+    expect(error).toBeUndefined();
+    expect(animation.cancel).not.toHaveBeenCalled();
+  });
+
+  it('passes other failures of the animation on as errors', async () => {
+    const { element, fail } = stubElement();
+    let error: Error | undefined;
+
+    animateElement(element, { from: {}, to: {}, duration: 100, easing: 'linear', frames: frames }).subscribe({ error: e => error = e });
+
+    fail(new Error('Broken'));
+    await flushPromises();
+
+    expect(error?.message).toBe('Broken');
+  });
+
+  it('rejects easings that are not CSS', () => {
+    const { element } = stubElement();
+    let error: Error | undefined;
+
+    animateElement(element, { from: {}, to: {}, duration: 100, easing: 'bouncy', frames: frames }).subscribe({ error: e => error = e });
+
+    expect(error?.message).toMatch('Invalid CSS easing "bouncy"');
+  });
+
+  it('jumps to the end where element.animate is missing', () => {
+    const progress: number[] = [];
+    let completed = false;
+
+    animateElement({} as Element, { from: {}, to: {}, duration: 100, easing: 'linear', frames: frames })
+      .subscribe({ next: collect(progress), complete: () => completed = true });
+
+    expect(progress).toEqual([1]);
+    expect(completed).toBe(true);
+  });
+
+  it('shortens and calms the animation under reduced motion', () => {
+    setMotionMode('reduced');
+
+    const { element, animate } = stubElement();
+
+    animateElement(element, { from: {}, to: {}, duration: 200, easing: 'easeOutBack', frames: frames }).subscribe();
+    setMotionMode(null);
+
+    expect(animate).toHaveBeenCalledWith([{}, {}], { duration: 100, easing: 'ease-out', fill: 'both' });
+  });
+
+  it('keeps calm easings under reduced motion and jumps to the end without motion', () => {
+    const calm = stubElement();
+    const none = stubElement();
+
+    animateElement(calm.element, { from: {}, to: {}, duration: 200, easing: 'ease-in', frames: frames, motion: 'reduced' }).subscribe();
+    animateElement(none.element, { from: {}, to: {}, duration: 200, easing: 'easeOutBack', frames: frames, motion: 'none' }).subscribe();
+
+    expect(calm.animate).toHaveBeenCalledWith([{}, {}], { duration: 100, easing: 'ease-in', fill: 'both' });
+    expect(none.animate).toHaveBeenCalledWith([{}, {}], expect.objectContaining({ duration: 0 }));
+  });
+});
@@ -0,0 +1,71 @@
+import { defer, Observable } from 'rxjs';
+import { map, startWith, takeUntil } from 'rxjs/operators';
+import { Animatable, ElementAnimationOptions } from '../types/element-animation';
+import { toCssEasing } from '../easings/css-easing';
+import { resolveEasing } from '../easings/resolve-easing';
+import { currentMotionMode, motionTiming } from '../motion/motion-policy';
+import { defaultFrames } from '../frames/default-frames';
+
+/**
+ * Runs a tween with `element.animate()` so the browser can run it off the
+ * main thread. Emits the progress from 0 to 1 like `play` does and completes
+ * when the animation finishes, or without the 1 when it is cancelled
+ * elsewhere. Unsubscribing cancels the animation. The
+ * motion policy shortens and calms it, or makes it jump to the end. Where
+ * `element.animate` is missing it jumps straight to the end.
+ */
+export const animateElement = (
+  element: Animatable,
+  { from, to, duration, easing, fill = 'both', frames = defaultFrames(), motion }: ElementAnimationOptions
+): Observable<number> =>
+  new Observable<number>(subscriber => {
+    if (typeof element.animate !== 'function') {
+      subscriber.next(1);
+      subscriber.complete();
+
+      return;
+    }
+
+    const cssEasing = toCssEasing(easing);
+    const easingFunction = resolveEasing(easing);
+    const timing = motionTiming(motion ?? currentMotionMode(), duration, easingFunction);
+    const adjusted = timing ? timing.duration : 0;
+
+    const animation = element.animate([from, to], {
+      duration: adjusted,
+      easing: !timing || timing.easing === easingFunction ? cssEasing : toCssEasing(timing.easing),
+      fill: fill
+    });
+    let finished = false;
+    let cancelled = false;
+
+    // Cancelling the animation from elsewhere rejects `finished` with an
+    // AbortError, which ends the progress like unsubscribing would.
+    const finished$ = defer(() => animation.finished.catch((error: unknown) => {
+      if ((error as Error | null)?.name !== 'AbortError') throw error;
+
+      cancelled = true;
+    }));
+
+    const subscription = frames.pipe(
+      map(() => adjusted > 0 ? Math.min(1, Number(animation.currentTime ?? 0) / adjusted) : 1),
+      startWith(0),
+      takeUntil(finished$)
+    ).subscribe({
+      next: progress => subscriber.next(progress),
+      error: error => subscriber.error(error),
+      complete: () => {
+        finished = true;
+
+        if (!cancelled) subscriber.next(1);
+
+        subscriber.complete();
+      }
+    });
+
+    return () => {
+      subscription.unsubscribe();
+
+      if (!finished) animation.cancel();
+    };
+  });
@@ -0,0 +1,26 @@
+import { back } from './back';
+
+describe('back', () => {
+  it('pulls back further with a larger overshoot', () => {
+    const gentle = back({ overshoot: 1 });
+    const strong = back({ overshoot: 3 });
+
+    expect(strong.in(.3, 0, 1, 1)).toBeLessThan(gentle.in(.3, 0, 1, 1));
+    expect(strong.out(.7, 0, 1, 1)).toBeGreaterThan(gentle.out(.7, 0, 1, 1));
+  });
+
+  it('does not overshoot with an overshoot of 0', () => {
+    const none = back({ overshoot: 0 });
+
+    for (let progress = 0; progress <= 1; progress += .05) {
+      expect(none.inOut(progress, 0, 1, 1)).toBeGreaterThanOrEqual(-1e-9);
+      expect(none.inOut(progress, 0, 1, 1)).toBeLessThanOrEqual(1 + 1e-9);
+    }
+  });
+
+  it('lets the overshoot argument take precedence', () => {
+    const family = back({ overshoot: 3 });
+
+    expect(family.out(.7, 0, 1, 1, 1)).toBeCloseTo(back({ overshoot: 1 }).out(.7, 0, 1, 1));
+  });
+});
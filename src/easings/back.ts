@@ -0,0 +1,26 @@
+import { EasingFamily } from '../types/easing-family';
+
+export interface BackOptions {
+  overshoot?: number;
+}
+
+export const defaultBackOptions: Required<BackOptions> = {
+  overshoot: 1.70158
+};
+
+/**
+ * The `overshoot` argument of the returned easing functions still takes
+ * precedence over the one given here.
+ */
+export const back = ({ overshoot = defaultBackOptions.overshoot }: BackOptions = {}): EasingFamily => ({
+  in: function (elapsed, start, delta, duration, s = overshoot) {
+    return delta * (elapsed /= duration) * elapsed * ((s + 1) * elapsed - s) + start;
+  },
+  out: function (elapsed, start, delta, duration, s = overshoot) {
+    return delta * ((elapsed = elapsed / duration - 1) * elapsed * ((s + 1) * elapsed + s) + 1) + start;
+  },
+  inOut: function (elapsed, start, delta, duration, s = overshoot) {
+    if ((elapsed /= duration / 2) < 1) return delta / 2 * (elapsed * elapsed * (((s *= (1.525)) + 1) * elapsed - s)) + start;
+    return delta / 2 * ((elapsed -= 2) * elapsed * (((s *= (1.525)) + 1) * elapsed + s) + 2) + start;
+  }
+});
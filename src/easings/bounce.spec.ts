@@ -0,0 +1,55 @@
+import { bounce } from './bounce';
+
+const touchdowns = (easing: (progress: number) => number) => {
+  let count = 0;
+
+  for (let i = 1; i < 1000; i++) {
+    const previous = easing((i - 1) / 1000);
+    const current = easing(i / 1000);
+    const next = easing((i + 1) / 1000);
+
+    if (current > previous && current > next) count++;
+  }
+
+  return count;
+};
+
+describe('bounce', () => {
+  it('reproduces the classic penner coefficients by default', () => {
+    const easeOut = bounce().out;
+
+    expect(easeOut(1 / 2.75, 0, 1, 1)).toBeCloseTo(1);
+    expect(easeOut(1.5 / 2.75, 0, 1, 1)).toBeCloseTo(.75);
+    expect(easeOut(2.25 / 2.75, 0, 1, 1)).toBeCloseTo(.9375);
+    expect(easeOut(2.625 / 2.75, 0, 1, 1)).toBeCloseTo(.984375);
+  });
+
+  it('bounces the given number of times', () => {
+    [1, 3, 5].forEach(bounces => {
+      const easeOut = bounce({ bounces: bounces, restitution: .6 }).out;
+
+      expect(touchdowns(progress => -easeOut(progress, 0, 1, 1))).toBe(bounces);
+    });
+  });
+
+  it('bounces lower with a smaller restitution', () => {
+    const high = bounce({ restitution: .7 }).out;
+    const low = bounce({ restitution: .3 }).out;
+    const lowest = (easing: typeof high) => Math.min(...Array.from({ length: 200 }, (_, i) => easing(.5 + i / 400, 0, 1, 1)));
+
+    expect(lowest(low)).toBeGreaterThan(lowest(high));
+  });
+
+  it('mirrors the out variant for in and in-out', () => {
+    const family = bounce();
+
+    expect(family.in(.3, 0, 1, 1)).toBeCloseTo(1 - family.out(.7, 0, 1, 1));
+    expect(family.inOut(.25, 0, 1, 1)).toBeCloseTo(family.in(.5, 0, 1, 1) / 2);
+    expect(family.inOut(.75, 0, 1, 1)).toBeCloseTo(.5 + family.out(.5, 0, 1, 1) / 2);
+  });
+
+  it('rejects invalid parameters', () => {
+    expect(() => bounce({ bounces: 1.5 })).toThrow('non-negative integer');
+    expect(() => bounce({ restitution: 1 })).toThrow('restitution between 0 and 1');
+  });
+});
@@ -0,0 +1,62 @@
+import { EasingFamily } from '../types/easing-family';
+import { mirror, reverse } from './combinators';
+import { normalizedEasing } from './normalized-easing';
+
+export interface BounceOptions {
+  bounces?: number;
+  restitution?: number;
+}
+
+export const defaultBounceOptions: Required<BounceOptions> = {
+  bounces: 3,
+  restitution: .5
+};
+
+interface Arc {
+  end: number;
+  center: number;
+  height: number;
+}
+
+/**
+ * Every bounce lasts `restitution` times as long as the one before and so
+ * reaches `restitution` squared of its height. The defaults are the classic
+ * Penner curve with its 7.5625 (2.75 squared) coefficient.
+ */
+export const bounce = ({ bounces = defaultBounceOptions.bounces, restitution = defaultBounceOptions.restitution }: BounceOptions = {}): EasingFamily => {
+  if (!Number.isInteger(bounces) || bounces < 0 || !(restitution > 0 && restitution < 1)) {
+    throw new Error(`bounce({ bounces: ${bounces}, restitution: ${restitution} }) needs a non-negative integer of bounces and a restitution between 0 and 1`);
+  }
+
+  const arcs: Arc[] = [];
+  let width = 1;
+  let end = 1;
+
+  for (let i = 0; i < bounces; i++) {
+    width *= restitution;
+    arcs.push({ end: end + 2 * width, center: end + width, height: width * width });
+    end += 2 * width;
+  }
+
+  const total = end;
+
+  const easeOut = normalizedEasing(progress => {
+    const x = progress * total;
+
+    if (x < 1) return x * x;
+
+    const arc = arcs.find(({ end }) => x < end);
+
+    if (!arc) return 1;
+
+    return (x - arc.center) * (x - arc.center) + 1 - arc.height;
+  });
+
+  const easeIn = reverse(easeOut);
+
+  return {
+    in: easeIn,
+    out: easeOut,
+    inOut: mirror(easeIn)
+  };
+};
@@ -0,0 +1,96 @@
+import { easingFunctions } from '../configs/easing-functions';
+import { blend, chain, clamp, mirror, repeat, reverse } from './combinators';
+import { normalizedEasing } from './normalized-easing';
+
+const linear = normalizedEasing(progress => progress);
+const progressions = [0, .1, .25, .4, .5, .6, .75, .9, 1];
+
+const expectSameCurve = (actual: typeof linear, expected: typeof linear) =>
+  progressions.forEach(progress => expect(actual(progress, 0, 1, 1)).toBeCloseTo(expected(progress, 0, 1, 1), 9));
+
+describe('reverse', () => {
+  it('turns ease-in curves into ease-out curves', () => {
+    expectSameCurve(reverse(easingFunctions.easeInCubic), easingFunctions.easeOutCubic);
+    expectSameCurve(reverse(easingFunctions.easeOutQuad), easingFunctions.easeInQuad);
+  });
+
+  it('undoes itself', () => {
+    expectSameCurve(reverse(reverse(easingFunctions.easeInExpo)), easingFunctions.easeInExpo);
+  });
+});
+
+describe('mirror', () => {
+  it('turns ease-in curves into ease-in-out curves', () => {
+    expectSameCurve(mirror(easingFunctions.easeInQuart), easingFunctions.easeInOutQuart);
+    expectSameCurve(mirror(easingFunctions.easeInSine), easingFunctions.easeInOutSine);
+  });
+});
+
+describe('chain', () => {
+  it('splits time and distance evenly by default', () => {
+    const chained = chain([easingFunctions.easeInQuad, linear]);
+
+    expect(chained(.25, 0, 1, 1)).toBeCloseTo(.125);
+    expect(chained(.5, 0, 1, 1)).toBeCloseTo(.5);
+    expect(chained(.75, 0, 1, 1)).toBeCloseTo(.75);
+  });
+
+  it('splits at the given points', () => {
+    const chained = chain([linear, easingFunctions.easeOutQuad, linear], [.2, .6]);
+
+    expect(chained(.1, 0, 1, 1)).toBeCloseTo(.1);
+    expect(chained(.4, 0, 1, 1)).toBeCloseTo(.2 + .4 * .75);
+    expect(chained(1, 0, 1, 1)).toBe(1);
+  });
+
+  it('rejects mismatching or unordered split points', () => {
+    expect(() => chain([])).toThrow('at least one');
+    expect(() => chain([linear, linear], [.2, .4])).toThrow('needs 1 split points');
+    expect(() => chain([linear, linear, linear], [.6, .4])).toThrow('increasing split points');
+  });
+});
+
+describe('blend', () => {
+  it('interpolates between both curves by weight', () => {
+    const { easeInQuad, easeOutQuad } = easingFunctions;
+
+    expectSameCurve(blend(easeInQuad, easeOutQuad, 0), easeInQuad);
+    expectSameCurve(blend(easeInQuad, easeOutQuad, 1), easeOutQuad);
+    expect(blend(easeInQuad, easeOutQuad, .5)(.5, 0, 1, 1)).toBeCloseTo(.5);
+  });
+});
+
+describe('clamp', () => {
+  it('cuts off overshoot and undershoot', () => {
+    const clamped = clamp(easingFunctions.easeInOutBack);
+
+    for (let progress = 0; progress <= 1; progress += .01) {
+      const value = clamped(progress, 0, 1, 1);
+
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThanOrEqual(1);
+    }
+  });
+});
+
+describe('repeat', () => {
+  it('restarts the curve on every run', () => {
+    const repeated = repeat(easingFunctions.easeInQuad, 2);
+
+    expect(repeated(.25, 0, 1, 1)).toBeCloseTo(.25);
+    expect(repeated(.75, 0, 1, 1)).toBeCloseTo(.25);
+    expect(repeated(1, 0, 1, 1)).toBe(1);
+  });
+
+  it('runs every other repetition backwards with yoyo', () => {
+    const repeated = repeat(linear, 2, true);
+
+    expect(repeated(.25, 0, 1, 1)).toBeCloseTo(.5);
+    expect(repeated(.75, 0, 1, 1)).toBeCloseTo(.5);
+    expect(repeated(1, 0, 1, 1)).toBe(0);
+  });
+
+  it('rejects invalid counts', () => {
+    expect(() => repeat(linear, 0)).toThrow('positive integer count');
+  });
+});
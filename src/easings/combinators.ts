@@ -0,0 +1,98 @@
+import { EasingFunction } from '../types/easing-function';
+import { normalizedEasing, NormalizedEasing } from './normalized-easing';
+
+const progressOf = (easing: EasingFunction): NormalizedEasing =>
+  progress => easing(progress, 0, 1, 1);
+
+/**
+ * Plays the curve backwards and upside down, which turns an ease-in into an
+ * ease-out and the other way around.
+ */
+export const reverse = (easing: EasingFunction): EasingFunction => {
+  const ease = progressOf(easing);
+
+  return normalizedEasing(progress => 1 - ease(1 - progress));
+};
+
+/**
+ * Runs the curve over the first half and its reverse over the second half,
+ * which turns an ease-in into an ease-in-out.
+ */
+export const mirror = (easing: EasingFunction): EasingFunction => {
+  const ease = progressOf(easing);
+
+  return normalizedEasing(progress => progress < .5
+    ? ease(progress * 2) / 2
+    : 1 - ease(2 - progress * 2) / 2);
+};
+
+/**
+ * Runs the easings one after another. The split points divide both time and
+ * distance between them and default to equal parts.
+ */
+export const chain = (easings: EasingFunction[], splitPoints?: number[]): EasingFunction => {
+  if (easings.length === 0) {
+    throw new Error('chain() needs at least one easing function');
+  }
+
+  const splits = splitPoints ?? easings.slice(1).map((_, index) => (index + 1) / easings.length);
+
+  if (splits.length !== easings.length - 1) {
+    throw new Error(`chain() needs ${easings.length - 1} split points for ${easings.length} easing functions, got ${splits.length}`);
+  }
+
+  const bounds = [0, ...splits, 1];
+
+  if (bounds.some((bound, index) => index > 0 && !(bound > bounds[index - 1]))) {
+    throw new Error(`chain() needs increasing split points between 0 and 1, got [${splits.join(', ')}]`);
+  }
+
+  const eases = easings.map(progressOf);
+
+  return normalizedEasing(progress => {
+    let index = 0;
+    while (index < eases.length - 1 && progress >= bounds[index + 1]) index++;
+
+    const from = bounds[index];
+    const to = bounds[index + 1];
+
+    return from + (to - from) * eases[index]((progress - from) / (to - from));
+  });
+};
+
+export const blend = (first: EasingFunction, second: EasingFunction, weight: number): EasingFunction => {
+  const easeFirst = progressOf(first);
+  const easeSecond = progressOf(second);
+
+  return normalizedEasing(progress => (1 - weight) * easeFirst(progress) + weight * easeSecond(progress));
+};
+
+/**
+ * Keeps both time and value within the start and end, cutting off any
+ * overshoot or undershoot.
+ */
+export const clamp = (easing: EasingFunction): EasingFunction => {
+  const ease = progressOf(easing);
+  const limit = (value: number) => Math.min(1, Math.max(0, value));
+
+  return normalizedEasing(progress => limit(ease(limit(progress))));
+};
+
+/**
+ * Runs the curve `count` times. With `yoyo` every other run goes backwards
+ * instead of jumping back to the start.
+ */
+export const repeat = (easing: EasingFunction, count: number, yoyo = false): EasingFunction => {
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`repeat() needs a positive integer count, got ${count}`);
+  }
+
+  const ease = progressOf(easing);
+
+  return normalizedEasing(progress => {
+    const run = Math.min(Math.floor(progress * count), count - 1);
+    const local = progress * count - run;
+
+    return yoyo && run % 2 === 1 ? ease(1 - local) : ease(local);
+  });
+};
@@ -0,0 +1,28 @@
+import { EasingFunction } from '../types/easing-function';
+import { CssLinearOptions } from '../types/curve-export';
+import { cssEasingFunctions } from '../configs/css-easing-functions';
+import { curveToCssLinear } from '../export/export-curve';
+import { easingRegistry } from '../configs/easing-registry';
+import { parseEasing } from './parse-easing';
+
+/**
+ * The CSS easing for `easing`: CSS strings and the CSS keyword functions are
+ * kept as they are, everything else is sampled into a `linear()` easing.
+ */
+export const toCssEasing = (easing: string | EasingFunction, options?: CssLinearOptions): string => {
+  if (typeof easing === 'string') {
+    const entry = easingRegistry.lookup(easing);
+
+    if (!entry || entry.family === 'css') {
+      parseEasing(easing);
+      return easing;
+    }
+
+    return curveToCssLinear(entry.easing, options);
+  }
+
+  const keywords: Record<string, EasingFunction> = cssEasingFunctions;
+  const keyword = Object.keys(keywords).find(name => keywords[name] === easing);
+
+  return keyword ?? curveToCssLinear(easing, options);
+};
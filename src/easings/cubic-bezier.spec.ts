@@ -0,0 +1,54 @@
+import { cssEasingFunctions } from '../configs/css-easing-functions';
+import { cubicBezier } from './cubic-bezier';
+
+describe('cubicBezier', () => {
+  it('is the identity for linear control points', () => {
+    const linear = cubicBezier(0, 0, 1, 1);
+
+    [0, .1, .25, .5, .75, .9, 1].forEach(progress => {
+      expect(linear(progress, 0, 1, 1)).toBeCloseTo(progress, 6);
+    });
+  });
+
+  it('matches browser output for the css keywords', () => {
+    expect(cssEasingFunctions['ease'](.25, 0, 1, 1)).toBeCloseTo(.4085, 3);
+    expect(cssEasingFunctions['ease'](.5, 0, 1, 1)).toBeCloseTo(.8024, 3);
+    expect(cssEasingFunctions['ease-in'](.5, 0, 1, 1)).toBeCloseTo(.3153, 3);
+    expect(cssEasingFunctions['ease-out'](.5, 0, 1, 1)).toBeCloseTo(.6847, 3);
+    expect(cssEasingFunctions['ease-in-out'](.5, 0, 1, 1)).toBeCloseTo(.5, 6);
+  });
+
+  it('scales to start, delta and duration', () => {
+    const easing = cubicBezier(.17, .67, .83, .67);
+
+    expect(easing(0, 20, 80, 400)).toBe(20);
+    expect(easing(400, 20, 80, 400)).toBe(100);
+    expect(easing(200, 20, 80, 400)).toBeCloseTo(20 + 80 * easing(.5, 0, 1, 1), 6);
+  });
+
+  it('solves steep curves where newton-raphson alone does not converge', () => {
+    const easing = cubicBezier(1, 0, 0, 1);
+    let previous = 0;
+
+    for (let progress = 0; progress <= 1; progress += .01) {
+      const value = easing(progress, 0, 1, 1);
+
+      expect(value).toBeGreaterThanOrEqual(previous - 1e-6);
+      previous = value;
+    }
+  });
+
+  it('supports control points that overshoot on the y axis', () => {
+    const easing = cubicBezier(.68, -.6, .32, 1.6);
+    const values = Array.from({ length: 101 }, (_, i) => easing(i / 100, 0, 1, 1));
+
+    expect(Math.min(...values)).toBeLessThan(0);
+    expect(Math.max(...values)).toBeGreaterThan(1);
+  });
+
+  it('rejects x values outside of 0 and 1', () => {
+    expect(() => cubicBezier(-.1, 0, 1, 1)).toThrow('needs x values between 0 and 1');
+    expect(() => cubicBezier(0, 0, 1.1, 1)).toThrow('needs x values between 0 and 1');
+    expect(() => cubicBezier(0, NaN, 1, 1)).toThrow('needs finite control points');
+  });
+});
@@ -0,0 +1,92 @@
+import { EasingFunction } from '../types/easing-function';
+
+const NEWTON_ITERATIONS = 8;
+const NEWTON_MIN_SLOPE = 1e-6;
+const SUBDIVISION_ITERATIONS = 32;
+const PRECISION = 1e-7;
+
+interface Polynomial {
+  a: number;
+  b: number;
+  c: number;
+}
+
+const polynomial = (p1: number, p2: number): Polynomial => {
+  const c = 3 * p1;
+  const b = 3 * (p2 - p1) - c;
+
+  return {
+    a: 1 - c - b,
+    b: b,
+    c: c
+  };
+};
+
+const sample = ({ a, b, c }: Polynomial, t: number): number => ((a * t + b) * t + c) * t;
+
+const sampleDerivative = ({ a, b, c }: Polynomial, t: number): number => (3 * a * t + 2 * b) * t + c;
+
+/**
+ * Finds the curve parameter for a given x the same way browsers do: a few
+ * Newton-Raphson steps, falling back to bisection where the slope is too flat.
+ */
+const solveCurveX = (x: Polynomial, progress: number): number => {
+  let t = progress;
+
+  for (let i = 0; i < NEWTON_ITERATIONS; i++) {
+    const error = sample(x, t) - progress;
+
+    if (Math.abs(error) < PRECISION) return t;
+
+    const slope = sampleDerivative(x, t);
+
+    if (Math.abs(slope) < NEWTON_MIN_SLOPE) break;
+
+    t -= error / slope;
+  }
+
+  let lower = 0;
+  let upper = 1;
+  t = progress;
+
+  for (let i = 0; i < SUBDIVISION_ITERATIONS && lower < upper; i++) {
+    const value = sample(x, t);
+
+    if (Math.abs(value - progress) < PRECISION) return t;
+
+    if (progress > value) {
+      lower = t;
+    } else {
+      upper = t;
+    }
+
+    t = (upper + lower) / 2;
+  }
+
+  return t;
+};
+
+export const cubicBezier = (x1: number, y1: number, x2: number, y2: number): EasingFunction => {
+  if ([x1, y1, x2, y2].some(value => !isFinite(value))) {
+    throw new Error(`cubic-bezier(${x1}, ${y1}, ${x2}, ${y2}) needs finite control points`);
+  }
+
+  if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) {
+    throw new Error(`cubic-bezier(${x1}, ${y1}, ${x2}, ${y2}) needs x values between 0 and 1`);
+  }
+
+  const x = polynomial(x1, x2);
+  const y = polynomial(y1, y2);
+
+  const startGradient = x1 > 0 ? y1 / x1 : (x2 > 0 ? y2 / x2 : 0);
+  const endGradient = x2 < 1 ? (y2 - 1) / (x2 - 1) : (x1 < 1 ? (y1 - 1) / (x1 - 1) : 0);
+
+  return (elapsed, start, delta, duration) => {
+    const progress = elapsed / duration;
+
+    if (progress <= 0) return start + delta * startGradient * progress;
+    if (progress >= 1) return start + delta * (1 + endGradient * (progress - 1));
+
+    return start + delta * sample(y, solveCurveX(x, progress));
+  };
+};
@@ -0,0 +1,7 @@
+import { EasingFunction } from '../types/easing-function';
+
+/**
+ * Checks every entry against `EasingFunction` while keeping the literal
+ * names, so `keyof typeof` the result is a union of them.
+ */
+export const easingRecord = <T extends Record<string, EasingFunction>>(easings: T): T => easings;
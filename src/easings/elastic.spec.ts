@@ -0,0 +1,44 @@
+import { elastic } from './elastic';
+
+const extremes = (easing: (progress: number) => number) => {
+  const values = Array.from({ length: 501 }, (_, i) => easing(i / 500));
+
+  return { min: Math.min(...values), max: Math.max(...values) };
+};
+
+describe('elastic', () => {
+  it('hits the start and end values exactly', () => {
+    const { in: easeIn, out: easeOut, inOut } = elastic({ amplitude: 2, period: .2 });
+
+    [easeIn, easeOut, inOut].forEach(easing => {
+      expect(easing(0, 5, 10, 100)).toBe(5);
+      expect(easing(100, 5, 10, 100)).toBe(15);
+    });
+  });
+
+  it('oscillates more often with a shorter period', () => {
+    const crossings = (period: number) => {
+      const easeOut = elastic({ period: period }).out;
+      let count = 0;
+
+      for (let i = 1; i <= 500; i++) {
+        if ((easeOut((i - 1) / 500, 0, 1, 1) - 1) * (easeOut(i / 500, 0, 1, 1) - 1) < 0) count++;
+      }
+
+      return count;
+    };
+
+    expect(crossings(.1)).toBeGreaterThan(crossings(.4));
+  });
+
+  it('overshoots further with a larger amplitude', () => {
+    const small = extremes(progress => elastic({ amplitude: 1 }).out(progress, 0, 1, 1));
+    const large = extremes(progress => elastic({ amplitude: 3 }).out(progress, 0, 1, 1));
+
+    expect(large.max).toBeGreaterThan(small.max);
+  });
+
+  it('rejects non-positive periods', () => {
+    expect(() => elastic({ period: 0 })).toThrow('positive period');
+  });
+});
@@ -0,0 +1,40 @@
+import { EasingFamily } from '../types/easing-family';
+import { easingFamily } from './normalized-easing';
+
+export interface ElasticOptions {
+  amplitude?: number;
+  period?: number;
+}
+
+export const defaultElasticOptions: Required<ElasticOptions> = {
+  amplitude: 1,
+  period: .3
+};
+
+/**
+ * `amplitude` and `period` are relative to the distance and the duration. The
+ * in-out variant stretches the period by 1.5 as both halves only get half the time.
+ */
+export const elastic = ({ amplitude = defaultElasticOptions.amplitude, period = defaultElasticOptions.period }: ElasticOptions = {}): EasingFamily => {
+  if (!(period > 0)) {
+    throw new Error(`elastic({ amplitude: ${amplitude}, period: ${period} }) needs a positive period`);
+  }
+
+  const a = Math.max(amplitude, 1);
+  const oscillation = (progress: number, p: number) =>
+    Math.sin((progress - p / (2 * Math.PI) * Math.asin(1 / a)) * (2 * Math.PI) / p);
+
+  const easeIn = (progress: number, p: number) => -(a * Math.pow(2, 10 * (progress - 1)) * oscillation(progress - 1, p));
+  const easeOut = (progress: number, p: number) => a * Math.pow(2, -10 * progress) * oscillation(progress, p) + 1;
+
+  const edges = (ease: (progress: number) => number) => (progress: number) =>
+    progress === 0 ? 0 : (progress === 1 ? 1 : ease(progress));
+
+  return easingFamily(
+    edges(progress => easeIn(progress, period)),
+    edges(progress => easeOut(progress, period)),
+    edges(progress => progress < .5
+      ? easeIn(progress * 2, period * 1.5) / 2
+      : easeOut(progress * 2 - 1, period * 1.5) / 2 + .5)
+  );
+};
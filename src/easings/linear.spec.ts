@@ -0,0 +1,32 @@
+import { linear } from './linear';
+
+describe('linear', () => {
+  it('interpolates between evenly spread stops', () => {
+    const easing = linear([{ output: 0 }, { output: .8 }, { output: 1 }]);
+
+    expect(easing(.25, 0, 1, 1)).toBeCloseTo(.4);
+    expect(easing(.5, 0, 1, 1)).toBeCloseTo(.8);
+    expect(easing(.75, 0, 1, 1)).toBeCloseTo(.9);
+  });
+
+  it('honours explicit inputs and clamps decreasing ones', () => {
+    const easing = linear([{ output: 0 }, { output: .25, input: .75 }, { output: .5, input: .5 }, { output: 1 }]);
+
+    expect(easing(.375, 0, 1, 1)).toBeCloseTo(.125);
+    expect(easing(.75, 0, 1, 1)).toBeCloseTo(.5);
+    expect(easing(.875, 0, 1, 1)).toBeCloseTo(.75);
+  });
+
+  it('extrapolates outside of the first and last input', () => {
+    const easing = linear([{ output: 0, input: .2 }, { output: 1, input: .8 }]);
+
+    expect(easing(0, 0, 1, 1)).toBeCloseTo(-1 / 3);
+    expect(easing(1, 0, 1, 1)).toBeCloseTo(4 / 3);
+  });
+
+  it('scales to start, delta and duration', () => {
+    const easing = linear([{ output: 0 }, { output: 1 }]);
+
+    expect(easing(150, 100, -50, 300)).toBe(75);
+  });
+});
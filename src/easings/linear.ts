@@ -0,0 +1,82 @@
+import { EasingFunction } from '../types/easing-function';
+
+export interface LinearStop {
+  output: number;
+  input?: number;
+}
+
+interface LinearPoint {
+  output: number;
+  input: number;
+}
+
+/**
+ * Fills in missing inputs the way CSS `linear()` does: the ends default to 0
+ * and 1, inputs never decrease and gaps are spread evenly between known inputs.
+ */
+const resolveStops = (stops: LinearStop[]): LinearPoint[] => {
+  const inputs = stops.map(stop => stop.input);
+
+  if (inputs[0] === undefined) inputs[0] = 0;
+  if (inputs[inputs.length - 1] === undefined) {
+    inputs[inputs.length - 1] = Math.max(1, ...inputs.filter((input): input is number => input !== undefined));
+  }
+
+  let largest = -Infinity;
+  inputs.forEach((input, index) => {
+    if (input === undefined) return;
+
+    largest = Math.max(largest, input);
+    inputs[index] = largest;
+  });
+
+  let lastKnown = 0;
+  inputs.forEach((input, index) => {
+    if (input === undefined) return;
+
+    const gap = index - lastKnown;
+    const from = inputs[lastKnown] as number;
+
+    for (let missing = lastKnown + 1; missing < index; missing++) {
+      inputs[missing] = from + (input - from) * (missing - lastKnown) / gap;
+    }
+
+    lastKnown = index;
+  });
+
+  return stops.map((stop, index) => ({
+    output: stop.output,
+    input: inputs[index] as number
+  }));
+};
+
+const interpolate = (from: LinearPoint, to: LinearPoint, progress: number): number => {
+  if (from.input === to.input) return to.output;
+
+  return from.output + (to.output - from.output) * (progress - from.input) / (to.input - from.input);
+};
+
+export const linear = (stops: LinearStop[]): EasingFunction => {
+  if (stops.length < 2) {
+    throw new Error(`linear() needs at least two stops, got ${stops.length}`);
+  }
+
+  const points = resolveStops(stops);
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  return (elapsed, start, delta, duration) => {
+    const progress = elapsed / duration;
+
+    if (progress < first.input) {
+      return start + delta * (first.input === points[1].input ? first.output : interpolate(first, points[1], progress));
+    }
+
+    if (progress >= last.input) return start + delta * interpolate(points[points.length - 2], last, progress);
+
+    let index = points.length - 2;
+    while (points[index].input > progress) index--;
+
+    return start + delta * interpolate(points[index], points[index + 1], progress);
+  };
+};
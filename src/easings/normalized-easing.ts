@@ -0,0 +1,19 @@
+import { EasingFamily } from '../types/easing-family';
+import { EasingFunction } from '../types/easing-function';
+
+export type NormalizedEasing = (progress: number) => number;
+
+export const normalizedEasing = (easing: NormalizedEasing): EasingFunction =>
+  (elapsed, start, delta, duration) => start + delta * easing(elapsed / duration);
+
+/**
+ * The plain linear easing function, not to be confused with the `linear()`
+ * factory for CSS-style piecewise linear curves.
+ */
+export const linearEasing: EasingFunction = (elapsed, start, delta, duration) => start + delta * elapsed / duration;
+
+export const easingFamily = (easeIn: NormalizedEasing, easeOut: NormalizedEasing, easeInOut: NormalizedEasing): EasingFamily => ({
+  in: normalizedEasing(easeIn),
+  out: normalizedEasing(easeOut),
+  inOut: normalizedEasing(easeInOut)
+});
@@ -0,0 +1,51 @@
+import { cssEasingFunctions } from '../configs/css-easing-functions';
+import { parseEasing } from './parse-easing';
+
+describe('parseEasing', () => {
+  it('resolves keywords case-insensitively', () => {
+    expect(parseEasing('ease-in-out')).toBe(cssEasingFunctions['ease-in-out']);
+    expect(parseEasing('  Linear ')).toBe(cssEasingFunctions['linear']);
+    expect(parseEasing('step-start')(0, 0, 1, 1)).toBe(1);
+    expect(parseEasing('step-end')(.99, 0, 1, 1)).toBe(0);
+  });
+
+  it('parses cubic-bezier()', () => {
+    const easing = parseEasing('cubic-bezier(.25, .1, .25, 1)');
+
+    expect(easing(.5, 0, 1, 1)).toBeCloseTo(cssEasingFunctions['ease'](.5, 0, 1, 1));
+  });
+
+  it('parses steps()', () => {
+    expect(parseEasing('steps(4)')(.3, 0, 1, 1)).toBe(.25);
+    expect(parseEasing('steps(4, jump-start)')(.3, 0, 1, 1)).toBe(.5);
+    expect(parseEasing('steps(5, jump-none)')(.3, 0, 1, 1)).toBe(.25);
+  });
+
+  it('parses linear() with one and two percentages per stop', () => {
+    const easing = parseEasing('linear(0, 0.25 75%, 1)');
+
+    expect(easing(.375, 0, 1, 1)).toBeCloseTo(.125);
+    expect(easing(.875, 0, 1, 1)).toBeCloseTo(.625);
+
+    const plateau = parseEasing('linear(0, .5 25% 75%, 1)');
+
+    expect(plateau(.5, 0, 1, 1)).toBe(.5);
+  });
+
+  it.each([
+    ['bounce', 'unknown keyword'],
+    ['wiggle(1)', 'unknown function "wiggle()"'],
+    ['cubic-bezier(0, 0, 1)', 'takes 4 arguments'],
+    ['cubic-bezier(1.5, 0, 1, 1)', 'x values must be between 0 and 1'],
+    ['cubic-bezier(a, 0, 1, 1)', 'expected a number but got "a"'],
+    ['steps(2.5)', 'must be an integer'],
+    ['steps(1, jump-none)', 'too few steps'],
+    ['steps(3, sideways)', 'unknown step position "sideways"'],
+    ['linear(0)', 'at least two stops'],
+    ['linear(0, .5 50, 1)', 'expected a percentage but got "50"'],
+    ['linear(0, , 1)', 'empty argument']
+  ])('rejects %s', (css, reason) => {
+    expect(() => parseEasing(css)).toThrow(`Invalid CSS easing "${css}"`);
+    expect(() => parseEasing(css)).toThrow(reason);
+  });
+});
@@ -0,0 +1,105 @@
+import { EasingFunction } from '../types/easing-function';
+import { cssEasingFunctions } from '../configs/css-easing-functions';
+import { cubicBezier } from './cubic-bezier';
+import { linear, LinearStop } from './linear';
+import { StepPosition, stepPositions, steps } from './steps';
+
+const NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/;
+const PERCENTAGE = /^([+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?)%$/;
+const FUNCTION = /^([a-z-]+)\((.*)\)$/;
+
+const invalid = (css: string, reason: string): Error => new Error(`Invalid CSS easing "${css}": ${reason}`);
+
+const parseNumber = (css: string, token: string): number => {
+  if (!NUMBER.test(token)) throw invalid(css, `expected a number but got "${token}"`);
+
+  return Number(token);
+};
+
+const parsePercentage = (css: string, token: string): number => {
+  const match = PERCENTAGE.exec(token);
+
+  if (!match) throw invalid(css, `expected a percentage but got "${token}"`);
+
+  return Number(match[1]) / 100;
+};
+
+const parseArguments = (css: string, args: string): string[] => {
+  const tokens = args.split(',').map(token => token.trim());
+
+  if (tokens.some(token => token === '')) throw invalid(css, 'empty argument');
+
+  return tokens;
+};
+
+const parseCubicBezier = (css: string, args: string[]): EasingFunction => {
+  if (args.length !== 4) throw invalid(css, `cubic-bezier() takes 4 arguments, got ${args.length}`);
+
+  const [x1, y1, x2, y2] = args.map(arg => parseNumber(css, arg));
+
+  if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) throw invalid(css, 'x values must be between 0 and 1');
+
+  return cubicBezier(x1, y1, x2, y2);
+};
+
+const parseSteps = (css: string, args: string[]): EasingFunction => {
+  if (args.length < 1 || args.length > 2) throw invalid(css, `steps() takes 1 or 2 arguments, got ${args.length}`);
+
+  const count = parseNumber(css, args[0]);
+  const position = (args[1] ?? 'jump-end') as StepPosition;
+
+  if (stepPositions.indexOf(position) === -1) throw invalid(css, `unknown step position "${args[1]}"`);
+  if (!Number.isInteger(count)) throw invalid(css, 'step count must be an integer');
+  if (count < (position === 'jump-none' ? 2 : 1)) throw invalid(css, `too few steps for ${position}`);
+
+  return steps(count, position);
+};
+
+const parseLinear = (css: string, args: string[]): EasingFunction => {
+  const stops = args.reduce((acc, arg) => {
+    const [output, ...inputs] = arg.split(/\s+/);
+
+    if (inputs.length > 2) throw invalid(css, `linear() stop "${arg}" has more than two percentages`);
+
+    const value = parseNumber(css, output);
+    const percentages = inputs.map(input => parsePercentage(css, input));
+
+    if (percentages.length === 0) return [...acc, { output: value }];
+
+    return [...acc, ...percentages.map(input => ({ output: value, input: input }))];
+  }, [] as LinearStop[]);
+
+  if (stops.length < 2) throw invalid(css, 'linear() needs at least two stops');
+
+  return linear(stops);
+};
+
+/**
+ * Turns any CSS `<easing-function>` into an `EasingFunction`.
+ */
+export const parseEasing = (css: string): EasingFunction => {
+  const normalized = css.trim().toLowerCase();
+
+  const keywords: Record<string, EasingFunction> = cssEasingFunctions;
+
+  if (keywords.hasOwnProperty(normalized)) {
+    return keywords[normalized];
+  }
+
+  const match = FUNCTION.exec(normalized);
+
+  if (!match) throw invalid(css, 'unknown keyword');
+
+  const [, name, args] = match;
+
+  switch (name) {
+    case 'cubic-bezier':
+      return parseCubicBezier(css, parseArguments(css, args));
+    case 'steps':
+      return parseSteps(css, parseArguments(css, args));
+    case 'linear':
+      return parseLinear(css, parseArguments(css, args));
+    default:
+      throw invalid(css, `unknown function "${name}()"`);
+  }
+};
@@ -0,0 +1,26 @@
+import { power } from './power';
+
+describe('power', () => {
+  it('raises progress to the given exponent', () => {
+    const cubic = power(3);
+
+    expect(cubic.in(.5, 0, 1, 1)).toBeCloseTo(.125);
+    expect(cubic.out(.5, 0, 1, 1)).toBeCloseTo(.875);
+    expect(cubic.inOut(.25, 0, 1, 1)).toBeCloseTo(.0625);
+    expect(cubic.inOut(.75, 0, 1, 1)).toBeCloseTo(.9375);
+  });
+
+  it('is linear for an exponent of 1', () => {
+    const linear = power(1);
+
+    [linear.in, linear.out, linear.inOut].forEach(easing => expect(easing(30, 10, 100, 60)).toBeCloseTo(60));
+  });
+
+  it('supports fractional exponents', () => {
+    expect(power(.5).in(.25, 0, 1, 1)).toBeCloseTo(.5);
+  });
+
+  it('rejects non-positive exponents', () => {
+    expect(() => power(0)).toThrow('positive exponent');
+  });
+});
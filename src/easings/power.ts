@@ -0,0 +1,16 @@
+import { EasingFamily } from '../types/easing-family';
+import { easingFamily } from './normalized-easing';
+
+export const power = (exponent: number): EasingFamily => {
+  if (!(exponent > 0)) {
+    throw new Error(`power(${exponent}) needs a positive exponent`);
+  }
+
+  return easingFamily(
+    progress => Math.pow(progress, exponent),
+    progress => 1 - Math.pow(1 - progress, exponent),
+    progress => progress < .5
+      ? Math.pow(progress * 2, exponent) / 2
+      : 1 - Math.pow(2 - progress * 2, exponent) / 2
+  );
+};
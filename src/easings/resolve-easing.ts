@@ -0,0 +1,14 @@
+import { EasingFunction } from '../types/easing-function';
+import { easingRegistry } from '../configs/easing-registry';
+import { parseEasing } from './parse-easing';
+
+/**
+ * Looks names and aliases up in `easingRegistry` first and parses anything
+ * else as a CSS easing, so `'easeOutBack'`, `'ease-out-back'` and
+ * `'cubic-bezier(.5, 0, .5, 1)'` all work.
+ */
+export const resolveEasing = (easing: string | EasingFunction): EasingFunction => {
+  if (typeof easing === 'function') return easing;
+
+  return easingRegistry.lookup(easing)?.easing ?? parseEasing(easing);
+};
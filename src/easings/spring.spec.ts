@@ -0,0 +1,70 @@
+import { hasSettlingDuration, spring } from './spring';
+import { easingFunctions } from '../configs/easing-functions';
+
+const sample = (easing: ReturnType<typeof spring>, count: number) =>
+  Array.from({ length: count + 1 }, (_, i) => easing(i, 0, 1, count));
+
+describe('spring', () => {
+  it('starts at the start value and ends exactly at the end value', () => {
+    const easing = spring();
+
+    expect(easing(0, 10, 90, 500)).toBeCloseTo(10);
+    expect(easing(500, 10, 90, 500)).toBe(100);
+  });
+
+  it('overshoots when underdamped', () => {
+    const values = sample(spring({ stiffness: 180, damping: 8 }), 200);
+
+    expect(Math.max(...values)).toBeGreaterThan(1);
+  });
+
+  it('does not overshoot when critically damped or overdamped', () => {
+    [20, 40].forEach(damping => {
+      const values = sample(spring({ stiffness: 100, damping: damping }), 200);
+
+      expect(Math.max(...values)).toBeLessThanOrEqual(1);
+      values.slice(1).forEach((value, i) => expect(value).toBeGreaterThanOrEqual(values[i] - 1e-9));
+    });
+  });
+
+  it('treats a damping ratio within rounding of 1 as critically damped', () => {
+    const critical = sample(spring({ stiffness: 100, damping: 20 }), 200);
+    const nearlyCritical = sample(spring({ stiffness: 100, damping: 20 + 1e-9 }), 200);
+
+    expect(nearlyCritical).toEqual(critical);
+  });
+
+  it('reports a longer settling duration for lighter damping', () => {
+    const loose = spring({ stiffness: 100, damping: 5 });
+    const tight = spring({ stiffness: 100, damping: 15 });
+
+    expect(loose.settlingDuration).toBeGreaterThan(tight.settlingDuration);
+    expect(tight.settlingDuration).toBeGreaterThan(0);
+  });
+
+  it('settles within the threshold after its settling duration', () => {
+    const easing = spring({ stiffness: 150, damping: 10, mass: 2 });
+    const duration = easing.settlingDuration;
+
+    expect(Math.abs(easing(duration - .01, 0, 1, duration) - 1)).toBeLessThan(1e-3);
+  });
+
+  it('starts moving faster with an initial velocity', () => {
+    const resting = spring({ velocity: 0 });
+    const pushed = spring({ velocity: 10 });
+    const duration = resting.settlingDuration;
+
+    expect(pushed(20, 0, 1, duration)).toBeGreaterThan(resting(20, 0, 1, duration));
+  });
+
+  it('rejects non-physical parameters', () => {
+    expect(() => spring({ stiffness: 0 })).toThrow('positive stiffness');
+    expect(() => spring({ mass: -1 })).toThrow('positive stiffness and mass');
+    expect(() => spring({ damping: -1 })).toThrow('non-negative damping');
+  });
+
+  it('tells springs apart from other easing functions', () => {
+    expect(hasSettlingDuration(spring())).toBe(true);
+    expect(hasSettlingDuration(easingFunctions.easeOutElastic)).toBe(false);
+  });
+});
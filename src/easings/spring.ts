@@ -0,0 +1,81 @@
+import { EasingFunction } from '../types/easing-function';
+
+export interface SpringOptions {
+  stiffness?: number;
+  damping?: number;
+  mass?: number;
+  velocity?: number;
+}
+
+export type SpringEasingFunction = EasingFunction & {
+  settlingDuration: number;
+};
+
+const SETTLING_THRESHOLD = 1e-3;
+const SETTLING_STEP = 1;
+const MAX_SETTLING_DURATION = 10000;
+const CRITICAL_DAMPING_TOLERANCE = 1e-6;
+
+/**
+ * Remaining distance to the target, as a fraction of the whole distance, after
+ * `time` seconds of a damped oscillation that starts at rest distance 1.
+ */
+const createDisplacement = (stiffness: number, damping: number, mass: number, velocity: number) => {
+  const naturalFrequency = Math.sqrt(stiffness / mass);
+  const dampingRatio = damping / (2 * Math.sqrt(stiffness * mass));
+
+  if (Math.abs(dampingRatio - 1) < CRITICAL_DAMPING_TOLERANCE) {
+    return (time: number) => Math.exp(-naturalFrequency * time) * (1 + (naturalFrequency - velocity) * time);
+  }
+
+  if (dampingRatio < 1) {
+    const dampedFrequency = naturalFrequency * Math.sqrt(1 - dampingRatio * dampingRatio);
+    const decay = dampingRatio * naturalFrequency;
+    const sine = (decay - velocity) / dampedFrequency;
+
+    return (time: number) => Math.exp(-decay * time) * (Math.cos(dampedFrequency * time) + sine * Math.sin(dampedFrequency * time));
+  }
+
+  const root = naturalFrequency * Math.sqrt(dampingRatio * dampingRatio - 1);
+  const slow = -naturalFrequency * dampingRatio + root;
+  const fast = -naturalFrequency * dampingRatio - root;
+  const slowWeight = (-velocity - fast) / (slow - fast);
+
+  return (time: number) => slowWeight * Math.exp(slow * time) + (1 - slowWeight) * Math.exp(fast * time);
+};
+
+const settlingDurationOf = (displacement: (time: number) => number): number => {
+  let settledSince = 0;
+
+  for (let elapsed = 0; elapsed <= MAX_SETTLING_DURATION; elapsed += SETTLING_STEP) {
+    if (Math.abs(displacement(elapsed / 1000)) > SETTLING_THRESHOLD) {
+      settledSince = elapsed + SETTLING_STEP;
+    }
+  }
+
+  return Math.min(settledSince, MAX_SETTLING_DURATION);
+};
+
+/**
+ * A damped spring that covers its natural settling duration over whatever
+ * duration it is tweened with. `velocity` is in distances per second.
+ */
+export const spring = ({ stiffness = 100, damping = 10, mass = 1, velocity = 0 }: SpringOptions = {}): SpringEasingFunction => {
+  if (!(stiffness > 0) || !(mass > 0) || !(damping >= 0) || !isFinite(velocity)) {
+    throw new Error(`spring({ stiffness: ${stiffness}, damping: ${damping}, mass: ${mass}, velocity: ${velocity} }) needs a positive stiffness and mass and a non-negative damping`);
+  }
+
+  const displacement = createDisplacement(stiffness, damping, mass, velocity);
+  const settlingDuration = settlingDurationOf(displacement);
+
+  const easing: EasingFunction = (elapsed, start, delta, duration) => {
+    if (elapsed >= duration) return start + delta;
+
+    return start + delta * (1 - displacement(elapsed / duration * settlingDuration / 1000));
+  };
+
+  return Object.assign(easing, { settlingDuration: settlingDuration });
+};
+
+export const hasSettlingDuration = (easing: EasingFunction): easing is SpringEasingFunction =>
+  typeof (easing as Partial<SpringEasingFunction>).settlingDuration === 'number';
@@ -0,0 +1,28 @@
+import { steps } from './steps';
+
+const sampleAt = (progressions: number[], easing: ReturnType<typeof steps>) =>
+  progressions.map(progress => easing(progress, 0, 1, 1));
+
+describe('steps', () => {
+  const progressions = [0, .2, .5, .8, 1];
+
+  it('jumps at the end of every interval by default', () => {
+    expect(sampleAt(progressions, steps(2))).toEqual([0, 0, .5, .5, 1]);
+  });
+
+  it('jumps at the start of every interval', () => {
+    expect(sampleAt(progressions, steps(2, 'jump-start'))).toEqual([.5, .5, 1, 1, 1]);
+    expect(sampleAt(progressions, steps(2, 'start'))).toEqual([.5, .5, 1, 1, 1]);
+  });
+
+  it('jumps at neither or both ends', () => {
+    expect(sampleAt(progressions, steps(3, 'jump-none'))).toEqual([0, 0, .5, 1, 1]);
+    expect(sampleAt(progressions, steps(2, 'jump-both'))).toEqual([1 / 3, 1 / 3, 2 / 3, 2 / 3, 1]);
+  });
+
+  it('rejects invalid step counts', () => {
+    expect(() => steps(0)).toThrow('at least 1');
+    expect(() => steps(1.5)).toThrow('integer step count');
+    expect(() => steps(1, 'jump-none')).toThrow('at least 2');
+  });
+});
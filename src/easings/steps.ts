@@ -0,0 +1,26 @@
+import { EasingFunction } from '../types/easing-function';
+
+export type StepPosition = 'jump-start' | 'jump-end' | 'jump-none' | 'jump-both' | 'start' | 'end';
+
+export const stepPositions: StepPosition[] = ['jump-start', 'jump-end', 'jump-none', 'jump-both', 'start', 'end'];
+
+export const steps = (count: number, position: StepPosition = 'jump-end'): EasingFunction => {
+  const minimumCount = position === 'jump-none' ? 2 : 1;
+
+  if (!Number.isInteger(count) || count < minimumCount) {
+    throw new Error(`steps(${count}, ${position}) needs an integer step count of at least ${minimumCount}`);
+  }
+
+  const jumpsAtStart = position === 'jump-start' || position === 'start' || position === 'jump-both';
+  const jumps = position === 'jump-both' ? count + 1 : (position === 'jump-none' ? count - 1 : count);
+
+  return (elapsed, start, delta, duration) => {
+    const progress = elapsed / duration;
+    let step = Math.floor(progress * count) + (jumpsAtStart ? 1 : 0);
+
+    if (progress >= 0 && step < 0) step = 0;
+    if (progress <= 1 && step > jumps) step = jumps;
+
+    return start + delta * step / jumps;
+  };
+};
@@ -0,0 +1,22 @@
+import { EasingFunction } from '../types/easing-function';
+
+/**
+ * The derivative of `easing` at `elapsedTime`, in value units per
+ * millisecond. Uses a central difference and falls back to a one-sided one
+ * at the edges of the duration.
+ */
+export const easingVelocity = (
+  easing: EasingFunction,
+  elapsedTime: number,
+  start: number,
+  delta: number,
+  duration: number
+): number => {
+  const step = Math.max(duration, 1) * 1e-4;
+  const before = Math.max(0, elapsedTime - step);
+  const after = Math.min(duration, elapsedTime + step);
+
+  if (after <= before) return 0;
+
+  return (easing(after, start, delta, duration) - easing(before, start, delta, duration)) / (after - before);
+};
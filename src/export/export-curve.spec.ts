@@ -0,0 +1,71 @@
+import { easingFunctions } from '../configs/easing-functions';
+import { parseEasing } from '../easings/parse-easing';
+import { curveToCSV, curveToCssLinear, curveToJSON, curveToKeyframes, sampleCurve } from './export-curve';
+import { linear } from '../testing/spec-helpers';
+
+const { easeInQuad, easeOutBack } = easingFunctions;
+
+describe('sampleCurve', () => {
+  it('samples a number of points including both ends', () => {
+    expect(sampleCurve(easeInQuad, { points: 3 })).toEqual([
+      { progress: 0, value: 0 },
+      { progress: .5, value: .25 },
+      { progress: 1, value: 1 }
+    ]);
+  });
+
+  it('samples one point per frame at a frame rate', () => {
+    expect(sampleCurve(linear, { frameRate: 60, duration: 100 })).toHaveLength(7);
+    expect(sampleCurve(linear, { frameRate: 60, duration: 1000 })).toHaveLength(61);
+  });
+
+  it('rejects fewer than two points', () => {
+    expect(() => sampleCurve(linear, { points: 1 })).toThrow('Cannot sample a curve at less than two points, got {"points":1}');
+  });
+});
+
+describe('curve serialisation', () => {
+  const samples = sampleCurve(easeInQuad, { points: 4 });
+
+  it('writes JSON and CSV with rounded numbers', () => {
+    expect(JSON.parse(curveToJSON(samples))).toEqual([
+      { progress: 0, value: 0 },
+      { progress: .3333, value: .1111 },
+      { progress: .6667, value: .4444 },
+      { progress: 1, value: 1 }
+    ]);
+    expect(curveToCSV(samples)).toBe('progress,value\n0,0\n0.3333,0.1111\n0.6667,0.4444\n1,1');
+  });
+
+  it('writes Web Animations API keyframes', () => {
+    expect(curveToKeyframes(samples.slice(0, 2), value => ({ opacity: value }))).toEqual([
+      { opacity: 0, offset: 0 },
+      { opacity: samples[1].value, offset: .3333 }
+    ]);
+  });
+});
+
+describe('curveToCssLinear', () => {
+  it('needs only the ends for a straight line', () => {
+    expect(curveToCssLinear(linear)).toBe('linear(0, 1)');
+  });
+
+  it('follows the curve within the tolerance', () => {
+    [easeInQuad, easeOutBack].forEach(easing => {
+      const css = curveToCssLinear(easing, { tolerance: 1e-3 });
+      const exported = parseEasing(css);
+
+      expect(css.split(',').length).toBeLessThan(40);
+      for (let progress = 0; progress <= 1; progress += .01) {
+        expect(Math.abs(exported(progress, 0, 1, 1) - easing(progress, 0, 1, 1))).toBeLessThan(2e-3);
+      }
+    });
+  });
+
+  it('uses fewer stops with a larger tolerance', () => {
+    const fine = curveToCssLinear(easeInQuad, { tolerance: 1e-4 });
+    const coarse = curveToCssLinear(easeInQuad, { tolerance: 1e-2 });
+
+    expect(coarse.length).toBeLessThan(fine.length);
+  });
+});
@@ -0,0 +1,106 @@
+import { EasingFunction } from '../types/easing-function';
+import { EasingSample } from '../types/easing-analysis';
+import { CssLinearOptions, CurveKeyframe, CurveSampling } from '../types/curve-export';
+
+const PRECISION = 4;
+
+const round = (value: number) => Number(value.toFixed(PRECISION));
+
+const intervalsOf = (sampling: CurveSampling): number => {
+  const intervals = 'points' in sampling
+    ? sampling.points - 1
+    : Math.ceil(sampling.duration * sampling.frameRate / 1000);
+
+  if (!(intervals >= 1) || !isFinite(intervals)) {
+    throw new Error(`Cannot sample a curve at less than two points, got ${JSON.stringify(sampling)}`);
+  }
+
+  return Math.round(intervals);
+};
+
+/**
+ * Samples `easing` at evenly spaced progress points from 0 to 1, either a
+ * fixed number of them or one per frame of a run at `frameRate` frames per
+ * second.
+ */
+export const sampleCurve = (easing: EasingFunction, sampling: CurveSampling = { points: 101 }): EasingSample[] => {
+  const intervals = intervalsOf(sampling);
+
+  return Array.from({ length: intervals + 1 }, (_, index) => ({
+    progress: index / intervals,
+    value: easing(index / intervals, 0, 1, 1)
+  }));
+};
+
+export const curveToJSON = (samples: EasingSample[]): string =>
+  JSON.stringify(samples.map(sample => ({ progress: round(sample.progress), value: round(sample.value) })));
+
+export const curveToCSV = (samples: EasingSample[]): string =>
+  ['progress,value', ...samples.map(sample => `${round(sample.progress)},${round(sample.value)}`)].join('\n');
+
+const distanceToChord = (sample: EasingSample, from: EasingSample, to: EasingSample): number => {
+  const position = (sample.progress - from.progress) / (to.progress - from.progress);
+
+  return Math.abs(sample.value - (from.value + (to.value - from.value) * position));
+};
+
+/**
+ * Ramer-Douglas-Peucker on the vertical distance: keeps the point that strays
+ * furthest from the chord and recurses until every dropped point is within
+ * `tolerance`.
+ */
+const reduceSamples = (samples: EasingSample[], tolerance: number): EasingSample[] => {
+  const keep = samples.map((_, index) => index === 0 || index === samples.length - 1);
+  const ranges: [number, number][] = [[0, samples.length - 1]];
+
+  while (ranges.length) {
+    const [from, to] = ranges.pop() as [number, number];
+    let furthest = -1;
+    let distance = tolerance;
+
+    for (let index = from + 1; index < to; index++) {
+      const current = distanceToChord(samples[index], samples[from], samples[to]);
+
+      if (current > distance) {
+        furthest = index;
+        distance = current;
+      }
+    }
+
+    if (furthest !== -1) {
+      keep[furthest] = true;
+      ranges.push([from, furthest], [furthest, to]);
+    }
+  }
+
+  return samples.filter((_, index) => keep[index]);
+};
+
+/**
+ * A CSS `linear()` easing that follows `easing` within `tolerance`, with only
+ * as many stops as the curve needs.
+ */
+export const curveToCssLinear = (easing: EasingFunction, { tolerance = 1e-3, points = 1001 }: CssLinearOptions = {}): string => {
+  if (!(tolerance > 0)) {
+    throw new Error(`curveToCssLinear() needs a positive tolerance, got ${tolerance}`);
+  }
+
+  const samples = reduceSamples(sampleCurve(easing, { points: points }), tolerance);
+  const last = samples.length - 1;
+
+  const stops = samples.map((sample, index) => index === 0 || index === last
+    ? `${round(sample.value)}`
+    : `${round(sample.value)} ${round(sample.progress * 100)}%`);
+
+  return `linear(${stops.join(', ')})`;
+};
+
+/**
+ * Web Animations API keyframes with one keyframe per sample. `style` turns an
+ * eased value into the properties of its keyframe.
+ */
+export const curveToKeyframes = (samples: EasingSample[], style: (value: number) => CurveKeyframe): CurveKeyframe[] =>
+  samples.map(sample => ({
+    ...style(sample.value),
+    offset: round(sample.progress)
+  }));
@@ -0,0 +1,34 @@
+import { toArray } from 'rxjs/operators';
+import { tweenValues } from '../operators/tween';
+import { defaultFrames } from './default-frames';
+import { linear } from '../testing/spec-helpers';
+
+describe('defaultFrames', () => {
+  beforeEach(() => jest.useFakeTimers());
+
+  afterEach(() => jest.useRealTimers());
+
+  it('falls back to a timer where requestAnimationFrame is missing', () => {
+    const elapsed: number[] = [];
+
+    const subscription = defaultFrames().subscribe(frame => elapsed.push(frame.elapsed));
+    jest.advanceTimersByTime(50);
+    subscription.unsubscribe();
+
+    expect(elapsed.length).toBe(3);
+    expect(elapsed[0]).toBeGreaterThan(0);
+  });
+
+  it('lets tweens run without a DOM', () => {
+    const values: number[][] = [];
+
+    tweenValues({ from: 0, to: 10, duration: 100, easing: linear })
+      .pipe(toArray())
+      .subscribe(all => values.push(all));
+    jest.advanceTimersByTime(200);
+
+    expect(values.length).toBe(1);
+    expect(values[0][0]).toBe(0);
+    expect(values[0][values[0].length - 1]).toBe(10);
+  });
+});
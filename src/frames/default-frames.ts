@@ -0,0 +1,12 @@
+import { animationFrames } from 'rxjs';
+import { FrameSource } from '../types/animation-frame';
+import { schedulerFrames } from './scheduler-frames';
+
+const FALLBACK_FRAME_DURATION = 1000 / 60;
+
+/**
+ * `animationFrames()` in a browser, or frames on a 60fps timer where
+ * `requestAnimationFrame` is missing, e.g. in Node, SSR or a worker.
+ */
+export const defaultFrames = (): FrameSource =>
+  typeof requestAnimationFrame === 'function' ? animationFrames() : schedulerFrames(FALLBACK_FRAME_DURATION);
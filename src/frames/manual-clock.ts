@@ -0,0 +1,34 @@
+import { defer, Subject } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { FrameSource } from '../types/animation-frame';
+
+export interface ManualClock {
+  frames: FrameSource;
+  tick: (milliseconds: number) => void;
+}
+
+/**
+ * A frame source that only emits when `tick` is called, for driving tweens
+ * step by step outside of a browser.
+ */
+export const createManualClock = (): ManualClock => {
+  let now = 0;
+  const timestamp$ = new Subject<number>();
+
+  return {
+    frames: defer(() => {
+      const start = now;
+
+      return timestamp$.pipe(
+        map(timestamp => ({
+          timestamp: timestamp,
+          elapsed: timestamp - start
+        }))
+      );
+    }),
+    tick: milliseconds => {
+      now += milliseconds;
+      timestamp$.next(now);
+    }
+  };
+};
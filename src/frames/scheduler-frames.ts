@@ -0,0 +1,20 @@
+import { asyncScheduler, defer, interval, SchedulerLike } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { FrameSource } from '../types/animation-frame';
+
+/**
+ * A frame source that emits every `frameDuration` milliseconds on the given
+ * scheduler, e.g. a `TestScheduler` or when `requestAnimationFrame` is missing.
+ */
+export const schedulerFrames = (frameDuration: number, scheduler: SchedulerLike = asyncScheduler): FrameSource =>
+  defer(() => {
+    const start = scheduler.now();
+
+    return interval(frameDuration, scheduler).pipe(
+      map(() => scheduler.now()),
+      map(timestamp => ({
+        timestamp: timestamp,
+        elapsed: timestamp - start
+      }))
+    );
+  });
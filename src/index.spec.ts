@@ -0,0 +1,12 @@
+describe('library entry', () => {
+  it('loads without a DOM', () => {
+    expect(typeof document).toBe('undefined');
+    expect(typeof requestAnimationFrame).toBe('undefined');
+
+    const library = require('./index');
+
+    expect(library.easingFunctions.easeOutQuad(.5, 0, 1, 1)).toBe(.75);
+    expect(library.easingRegistry.get('easeOutQuad').family).toBe('quad');
+    expect(typeof library.tweenValues).toBe('function');
+  });
+});
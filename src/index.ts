@@ -0,0 +1,73 @@
+/**
+ * The library entry. Importing it has no side effects and needs no DOM, so
+ * it works in Node, SSR and workers; `main.ts` is the demo page.
+ */
+
+export * from './types/animation-frame';
+export * from './types/bezier-fit';
+export * from './types/color';
+export * from './types/curve-export';
+export * from './types/dom-binding';
+export * from './types/easing-analysis';
+export * from './types/easing-family';
+export * from './types/easing-function';
+export * from './types/easing-registry';
+export * from './types/element-animation';
+export * from './types/frame-report';
+export * from './types/keyframe';
+export * from './types/motion';
+export * from './types/playback';
+export * from './types/timeline';
+export * from './types/tween-options';
+export * from './types/tweenable';
+
+export * from './configs/css-easing-functions';
+export * from './configs/easing-functions';
+export * from './configs/easing-registry';
+
+export * from './easings/back';
+export * from './easings/bounce';
+export * from './easings/combinators';
+export * from './easings/css-easing';
+export * from './easings/cubic-bezier';
+export * from './easings/easing-record';
+export * from './easings/elastic';
+export * from './easings/linear';
+export * from './easings/normalized-easing';
+export * from './easings/parse-easing';
+export * from './easings/power';
+export * from './easings/resolve-easing';
+export * from './easings/spring';
+export * from './easings/steps';
+export * from './easings/velocity';
+
+export * from './registry/easing-registry';
+
+export * from './colors/color-spaces';
+export * from './colors/format-color';
+export * from './colors/parse-color';
+
+export * from './interpolation/interpolate';
+export * from './interpolation/keyframe-track';
+
+export * from './frames/default-frames';
+export * from './frames/manual-clock';
+export * from './frames/scheduler-frames';
+
+export * from './motion/motion-policy';
+
+export * from './operators/follow-target';
+export * from './operators/keyframes';
+export * from './operators/orchestration';
+export * from './operators/tween';
+
+export * from './playback/playback-controller';
+
+export * from './analysis/analyze-easing';
+export * from './analysis/fit-bezier';
+export * from './analysis/frame-report';
+
+export * from './export/export-curve';
+
+export * from './drivers/animate-element';
+export * from './dom/bindings';
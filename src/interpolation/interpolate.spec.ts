@@ -0,0 +1,42 @@
+import { easingFunctions } from '../configs/easing-functions';
+import { assertSameShape, interpolate } from './interpolate';
+
+describe('interpolate', () => {
+  const { easeInQuad, easeOutQuad } = easingFunctions;
+
+  it('eases numbers with the given easing function', () => {
+    expect(interpolate(10, 20, easeInQuad, 1, 2)).toBe(12.5);
+  });
+
+  it('keeps the shape of arrays and objects', () => {
+    expect(interpolate({ a: [0, 10], b: { c: 4 } }, { a: [10, 20], b: { c: 8 } }, easeOutQuad, 1, 2))
+      .toEqual({ a: [7.5, 17.5], b: { c: 7 } });
+  });
+
+  it('falls back to the enclosing easing function for nested keys', () => {
+    expect(interpolate({ a: { b: 0 }, c: 0 }, { a: { b: 4 }, c: 4 }, { a: easeInQuad, c: easeOutQuad }, 1, 2))
+      .toEqual({ a: { b: 1 }, c: 3 });
+  });
+});
+
+describe('assertSameShape', () => {
+  const { easeInQuad } = easingFunctions;
+
+  it('accepts matching structures', () => {
+    expect(() => assertSameShape({ a: [1, 2] }, { a: [3, 4] }, easeInQuad)).not.toThrow();
+  });
+
+  it('names the path of the first mismatch', () => {
+    expect(() => assertSameShape({ a: [1, 2] }, { a: [3] } as unknown as { a: number[] }, easeInQuad))
+      .toThrow('Cannot tween "a" between [0, 1] and [0]');
+    expect(() => assertSameShape({ a: { b: 1 } }, { a: [1] } as unknown as { a: { b: number } }, easeInQuad))
+      .toThrow('Cannot tween "a" between different structures');
+    expect(() => assertSameShape({ a: 1, b: 2 }, { a: 1, b: 2 }, { a: easeInQuad } as unknown as { a: typeof easeInQuad, b: typeof easeInQuad }))
+      .toThrow('Missing easing function for "b"');
+  });
+
+  it('rejects a null structure', () => {
+    expect(() => assertSameShape({ a: { b: 1 } }, { a: null } as unknown as { a: { b: number } }, easeInQuad))
+      .toThrow('Cannot tween "a" between different structures');
+  });
+});
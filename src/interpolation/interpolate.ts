@@ -0,0 +1,113 @@
+import { ColorSpace } from '../types/color';
+import { EasingFunction } from '../types/easing-function';
+import { TweenEasing } from '../types/tweenable';
+import { mixColors } from '../colors/color-spaces';
+import { formatColor } from '../colors/format-color';
+import { parseColor } from '../colors/parse-color';
+
+type Node = number | string | Node[] | { [key: string]: Node };
+type EasingNode = EasingFunction | { [key: string]: EasingNode };
+
+const easingAt = (easing: EasingNode, key: string): EasingNode =>
+  typeof easing === 'function' ? easing : easing[key];
+
+const describe = (path: string) => path === '' ? 'the root' : `"${path}"`;
+
+const assertNodes = (from: Node, to: Node, easing: EasingNode | undefined, path: string): void => {
+  if (typeof easing !== 'function' && (typeof easing !== 'object' || easing === null)) {
+    throw new Error(`Missing easing function for ${describe(path)}`);
+  }
+
+  if (typeof from === 'number') {
+    if (typeof to !== 'number') throw new Error(`Cannot tween ${describe(path)} from a number to a structure`);
+    if (typeof easing !== 'function') throw new Error(`Expected an easing function for ${describe(path)}`);
+
+    return;
+  }
+
+  if (typeof from === 'string') {
+    if (typeof to !== 'string') throw new Error(`Cannot tween ${describe(path)} from a color to something else`);
+    if (typeof easing !== 'function') throw new Error(`Expected an easing function for ${describe(path)}`);
+
+    parseColor(from);
+    parseColor(to);
+
+    return;
+  }
+
+  if (typeof to !== 'object' || to === null || Array.isArray(from) !== Array.isArray(to)) {
+    throw new Error(`Cannot tween ${describe(path)} between different structures`);
+  }
+
+  const fromKeys = Object.keys(from);
+  const toKeys = Object.keys(to);
+
+  if (fromKeys.length !== toKeys.length || fromKeys.some(key => !to.hasOwnProperty(key))) {
+    throw new Error(`Cannot tween ${describe(path)} between [${fromKeys.join(', ')}] and [${toKeys.join(', ')}]`);
+  }
+
+  fromKeys.forEach(key => assertNodes(
+    (from as Record<string, Node>)[key],
+    (to as Record<string, Node>)[key],
+    easingAt(easing, key),
+    path === '' ? key : `${path}.${key}`
+  ));
+};
+
+const interpolateNodes = (from: Node, to: Node, easing: EasingNode, elapsed: number, duration: number, colorSpace: ColorSpace): Node => {
+  if (typeof from === 'number') {
+    return (easing as EasingFunction)(elapsed, from, (to as number) - from, duration);
+  }
+
+  if (typeof from === 'string') {
+    const progress = (easing as EasingFunction)(elapsed, 0, 1, duration);
+
+    return formatColor(mixColors(parseColor(from), parseColor(to as string), progress, colorSpace));
+  }
+
+  if (Array.isArray(from)) {
+    return from.map((value, index) =>
+      interpolateNodes(value, (to as Node[])[index], easingAt(easing, String(index)), elapsed, duration, colorSpace)
+    );
+  }
+
+  return Object.keys(from).reduce((acc, key) => ({
+    ...acc,
+    [key]: interpolateNodes(from[key], (to as Record<string, Node>)[key], easingAt(easing, key), elapsed, duration, colorSpace)
+  }), {} as Record<string, Node>);
+};
+
+const formatNodes = (node: Node): Node => {
+  if (typeof node === 'number') return node;
+  if (typeof node === 'string') return formatColor(parseColor(node));
+  if (Array.isArray(node)) return node.map(formatNodes);
+
+  return Object.keys(node).reduce((acc, key) => ({ ...acc, [key]: formatNodes(node[key]) }), {} as Record<string, Node>);
+};
+
+/**
+ * Throws for everything the type system cannot catch: structures that differ
+ * between `from` and `to`, or easing maps missing a key.
+ */
+export const assertSameShape = <T>(from: T, to: T, easing: TweenEasing<T>): void =>
+  assertNodes(from as unknown as Node, to as unknown as Node, easing as unknown as EasingNode, '');
+
+/**
+ * `value` with its CSS colors written the way `interpolate` writes them, so
+ * that an end value looks like the values leading up to it.
+ */
+export const formatValue = <T>(value: T): T => formatNodes(value as unknown as Node) as unknown as T;
+
+/**
+ * Numbers are eased directly, CSS colors are mixed in `colorSpace` by the eased
+ * progress and come back as CSS color strings.
+ */
+export const interpolate = <T>(
+  from: T,
+  to: T,
+  easing: TweenEasing<T>,
+  elapsed: number,
+  duration: number,
+  colorSpace: ColorSpace = 'srgb'
+): T =>
+  interpolateNodes(from as unknown as Node, to as unknown as Node, easing as unknown as EasingNode, elapsed, duration, colorSpace) as unknown as T;
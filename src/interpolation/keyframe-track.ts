@@ -0,0 +1,65 @@
+import { ColorSpace } from '../types/color';
+import { Keyframe } from '../types/keyframe';
+import { TweenEasing } from '../types/tweenable';
+import { resolveEasing } from '../easings/resolve-easing';
+import { linearEasing } from '../easings/normalized-easing';
+import { calmEasing } from '../motion/motion-policy';
+import { assertSameShape, formatValue, interpolate } from './interpolate';
+
+interface Segment<T> {
+  from: Keyframe<T>;
+  to: Keyframe<T>;
+  easing: TweenEasing<T>;
+}
+
+const assertKeyframes = <T>(keyframes: readonly Keyframe<T>[]): void => {
+  if (keyframes.length < 2) {
+    throw new Error(`Keyframes need at least two entries, got ${keyframes.length}`);
+  }
+
+  if (keyframes[0].at !== 0 || keyframes[keyframes.length - 1].at !== 1) {
+    throw new Error('Keyframes need to start at 0 and end at 1');
+  }
+
+  keyframes.forEach((keyframe, index) => {
+    if (index > 0 && !(keyframe.at >= keyframes[index - 1].at)) {
+      throw new Error(`Keyframe ${index} at ${keyframe.at} comes before the keyframe preceding it`);
+    }
+  });
+};
+
+/**
+ * Validates the keyframes and resolves their easings once, and returns the
+ * value of the track at any progress between 0 and 1. `calm` swaps
+ * overshooting segment easings for calm ones, as reduced motion does.
+ */
+export const keyframeTrack = <T>(keyframes: readonly Keyframe<T>[], colorSpace?: ColorSpace, calm = false): (progress: number) => T => {
+  assertKeyframes(keyframes);
+
+  const segments: Segment<T>[] = keyframes.slice(1).map((to, index) => {
+    const from = keyframes[index];
+    const resolved = typeof to.easing === 'string' ? resolveEasing(to.easing) : (to.easing ?? linearEasing) as TweenEasing<T>;
+    const easing = calm ? calmEasing(resolved) : resolved;
+
+    assertSameShape(from.value, to.value, easing);
+
+    return { from: from, to: to, easing: easing };
+  });
+
+  const last = formatValue(keyframes[keyframes.length - 1].value);
+
+  return progress => {
+    if (progress >= 1) return last;
+
+    const position = Math.max(0, progress);
+    let index = segments.length - 1;
+
+    while (index > 0 && segments[index].from.at > position) index--;
+
+    const { from, to, easing } = segments[index];
+
+    if (from.at === to.at) return formatValue(to.value);
+
+    return interpolate(from.value, to.value, easing, position - from.at, to.at - from.at, colorSpace);
+  };
+};
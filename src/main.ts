@@ -2,36 +2,70 @@ import './styles.css';
 import '../assets/refresh.svg';
 
 import { EasingFunction } from './types/easing-function';
+import { FrameSource } from './types/animation-frame';
+import { ColorSpace } from './types/color';
 import {
   defer,
   fromEvent,
-  animationFrames,
   combineLatest,
+  concat,
+  merge,
+  of,
   range,
-  NEVER
+  timer,
+  NEVER,
+  Observable
 } from "rxjs";
 import {
+  debounceTime,
   distinctUntilChanged,
   endWith,
+  finalize,
   map,
   mapTo,
   pairwise,
   reduce,
+  repeat,
   scan,
   shareReplay,
+  skip,
   startWith,
   switchMap,
   switchMapTo,
   takeUntil,
   takeWhile,
-  tap
+  tap,
+  withLatestFrom
 } from "rxjs/operators";
-import { easingFunctions } from './configs/easing-functions';
+import { cubicBezier } from './easings/cubic-bezier';
+import { hasSettlingDuration, spring } from './easings/spring';
+import { normalizedEasing } from './easings/normalized-easing';
+import { keyframeTrack } from './interpolation/keyframe-track';
+import { elapsedFrames } from './operators/tween';
+import { createPlaybackController } from './playback/playback-controller';
+import { analyzeEasing } from './analysis/analyze-easing';
+import { diagnoseFrames } from './analysis/frame-report';
+import { fitCubicBezier } from './analysis/fit-bezier';
+import { BezierFit, BezierPoints } from './types/bezier-fit';
+import { linear } from './easings/linear';
+import { animateStyle } from './dom/bindings';
+import { parallel, play, timeline } from './operators/orchestration';
+import { easingRegistry } from './configs/easing-registry';
+import { EasingDirection, EasingEntry } from './types/easing-registry';
+import { MotionMode } from './types/motion';
+import { motionMode$, motionTiming, setMotionMode } from './motion/motion-policy';
+import { FrameReport } from './types/frame-report';
+import { curveToCSV, curveToCssLinear, curveToJSON, curveToKeyframes, sampleCurve } from './export/export-curve';
+import { mixColors } from './colors/color-spaces';
+import { formatColor } from './colors/format-color';
+import { parseColor } from './colors/parse-color';
 
 interface RenderOptions {
   renderPoints: boolean;
   renderCoords: boolean;
   renderOptimal: boolean;
+  renderVelocity: boolean;
+  renderFitted: boolean;
   renderEffective: boolean;
   renderFramelines: boolean;
 }
@@ -53,11 +87,27 @@ interface Axis {
   delta: number;
 }
 
+/**
+ * The part of the value axis a graph shows, in the same normalized units as
+ * coordinates: 0 is the start value, 1 the end value.
+ */
+interface ValueRange {
+  min: number;
+  max: number;
+}
+
+interface AxisLabels {
+  from: number;
+  to: number;
+  duration: number;
+}
+
 interface AnimationOptions {
   from: number;
   to: number;
   duration: number;
   easingFunction: EasingFunction;
+  frames?: FrameSource;
 }
 
 interface Buffer {
@@ -65,10 +115,18 @@ interface Buffer {
   context: CanvasRenderingContext2D;
 }
 
+/**
+ * Backs the canvas with `devicePixelRatio` pixels per CSS pixel and scales
+ * the context, so everything else keeps drawing in CSS pixels.
+ */
 const createBuffer = (width: number, height: number): Buffer => {
+  const pixelRatio = window.devicePixelRatio || 1;
+
   const canvas = document.createElement('canvas');
-  canvas.width = width;
-  canvas.height = height;
+  canvas.width = Math.round(width * pixelRatio);
+  canvas.height = Math.round(height * pixelRatio);
+  canvas.style.width = `${width}px`;
+  canvas.style.height = `${height}px`;
 
   const context = canvas.getContext('2d', { alpha: false });
 
@@ -76,6 +134,8 @@ const createBuffer = (width: number, height: number): Buffer => {
     throw new Error('Please check why canvas does not have a 2d render context');
   }
 
+  context.scale(pixelRatio, pixelRatio);
+
   return {
     canvas: canvas,
     context: context
@@ -93,10 +153,13 @@ interface Screen {
 interface Graph {
   x: Axis;
   y: Axis;
+  values: ValueRange;
 }
 
-const createGraph = (width: number, height: number): Graph => {
-  const offsetXLeft = 0.05 * width;
+const unitRange: ValueRange = { min: 0, max: 1 };
+
+const createGraph = (width: number, height: number, values: ValueRange = unitRange): Graph => {
+  const offsetXLeft = Math.max(0.05 * width, 30);
   const offsetXRight = 0.02 * width;
 
   const offsetYTop = 0.05 * height
@@ -122,29 +185,85 @@ const createGraph = (width: number, height: number): Graph => {
       min: minY,
       max: maxY,
       delta: maxY - minY
-    }
+    },
+    values: values
   }
 };
 
-const createScreen = (width: number, height: number): Screen => ({
+const createScreen = (width: number, height: number, values: ValueRange = unitRange): Screen => ({
   height: height,
   width: width,
   front: createBuffer(width, height),
   cache: createBuffer(width, height),
-  graph: createGraph(width, height)
+  graph: createGraph(width, height, values)
 });
 
-const drawCache = (screen: Screen) => screen.front.context.drawImage(screen.cache.canvas, 0, 0);
-const saveToCache = (screen: Screen) => screen.cache.context.drawImage(screen.front.canvas, 0, 0);
+/**
+ * A value range that fits the whole curve, including overshoot below 0 and
+ * above 1, with some padding.
+ */
+const autoValueRange = (easingFunction: EasingFunction, padding: number = .05): ValueRange => {
+  const { overshoot, undershoot } = analyzeEasing(easingFunction, { samples: 100 });
+  const min = -undershoot;
+  const max = 1 + overshoot;
+  const margin = (max - min) * padding;
+
+  return {
+    min: min === 0 ? 0 : min - margin,
+    max: max === 1 ? 1 : max + margin
+  };
+};
+
+const drawCache = (screen: Screen) => screen.front.context.drawImage(screen.cache.canvas, 0, 0, screen.width, screen.height);
+const saveToCache = (screen: Screen) => screen.cache.context.drawImage(screen.front.canvas, 0, 0, screen.width, screen.height);
+
+/**
+ * A round step that splits `span` into about `count` parts.
+ */
+const tickStep = (span: number, count: number = 4): number => {
+  const rough = span / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+
+  return magnitude * ([1, 2, 2.5, 5, 10].find(factor => factor * magnitude >= rough) ?? 10);
+};
 
-const drawAxis = (screen: Screen): void => {
+const ticksOf = ({ min, max }: ValueRange): number[] => {
+  const step = tickStep(max - min);
+  const ticks: number[] = [];
+
+  for (let tick = Math.ceil(min / step) * step; tick <= max + 1e-9; tick += step) {
+    ticks.push(Number(tick.toFixed(10)));
+  }
+
+  return ticks;
+};
+
+const formatTick = (value: number): string => String(Number(value.toFixed(2)));
+
+/**
+ * Clears the screen and draws gridlines, the 0 and 1 reference lines and both
+ * axes. With `labels` the ticks show milliseconds and tweened values,
+ * otherwise progress.
+ */
+const drawAxis = (screen: Screen, labels?: AxisLabels): void => {
   const context = screen.front.context;
   const xAxis = screen.graph.x;
   const yAxis = screen.graph.y;
+  const values = screen.graph.values;
 
   context.fillStyle = "white";
   context.fillRect(0, 0, screen.width, screen.height);
 
+  const xTicks = [0, .25, .5, .75, 1];
+  const yTicks = ticksOf(values);
+
+  drawLines(screen, [
+    ...xTicks.map(x => ({ from: { x: x, y: values.min }, to: { x: x, y: values.max } })),
+    ...yTicks.map(y => ({ from: { x: 0, y: y }, to: { x: 1, y: y } }))
+  ], '#f2f2f2');
+
+  drawLines(screen, [0, 1].map(y => ({ from: { x: 0, y: y }, to: { x: 1, y: y } })), '#9e9e9e', [4, 4]);
+
   const axisLines = [
     {
       from: normalizeCoordinate(screen.graph, xAxis.min, yAxis.min),
@@ -161,17 +280,28 @@ const drawAxis = (screen: Screen): void => {
   context.fillStyle = '#000000';
   context.font = "10px serif";
 
-  context.fillText("0", xAxis.min, yAxis.min + 10);
-  context.fillText("1", xAxis.max, yAxis.min + 10);
+  xTicks.forEach(x => {
+    const label = labels ? formatTick(x * labels.duration) : formatTick(x);
+    const { x: absoluteX } = absoluteCoordinate(screen.graph, { x: x, y: values.min });
+
+    context.fillText(label, absoluteX - context.measureText(label).width / 2, yAxis.min + 10);
+  });
+
+  yTicks.forEach(y => {
+    const label = labels ? formatTick(labels.from + y * (labels.to - labels.from)) : formatTick(y);
+    const { y: absoluteY } = absoluteCoordinate(screen.graph, { x: 0, y: y });
+
+    context.fillText(label, xAxis.min - 4 - context.measureText(label).width, absoluteY + 3);
+  });
+
   context.fillText("t", xAxis.edge - 5, yAxis.min + 8);
   context.fillText("v", xAxis.min - 8, yAxis.edge + 5);
-  context.fillText("1", xAxis.min - 8, yAxis.max);
 };
 
 const drawFramelines = (screen: Screen, xCoordinates: number[]): void => {
   const framelines = xCoordinates.map(x => ({
-    from: { x: x, y: 1 },
-    to: { x: x, y: 0 }
+    from: { x: x, y: screen.graph.values.max },
+    to: { x: x, y: screen.graph.values.min }
   }));
 
   drawLines(screen, framelines, '#eaeaea');
@@ -232,38 +362,80 @@ const drawGraph = (screen: Screen, lines: Line[]): void => drawLines(screen, lin
 
 const drawOptimalGraph = (screen: Screen, lines: Line[]): void => drawLines(screen, lines, 'blue');
 
-const getHighlightCoordinateHintLines = (highlightCoordinate: Coordinate): Line[] => {
-  if (highlightCoordinate.y < 0) {
-    return [
-      {
-        from: { x: 0, y: -highlightCoordinate.y },
-        to: { x: highlightCoordinate.x, y: -highlightCoordinate.y }
-      },
-      {
-        from: { x: highlightCoordinate.x, y: -highlightCoordinate.y },
-        to: highlightCoordinate
-      },
-    ];
-  }
+const drawFittedGraph = (screen: Screen, lines: Line[], fit: BezierFit): void => {
+  drawLines(screen, lines, '#4caf50', [6, 3]);
 
-  return [
-    {
-      from: { x: 0, y: highlightCoordinate.y },
-      to: highlightCoordinate
-    },
-    {
-      from: { x: highlightCoordinate.x, y: 0 },
-      to: highlightCoordinate
-    },
-  ];
+  const context = screen.front.context;
+
+  context.fillStyle = '#4caf50';
+  context.font = "10px serif";
+  context.fillText(`${fit.css} ±${fit.maxError.toFixed(3)}`, screen.graph.x.min + 10, 20);
+};
+
+const bezierFits = new WeakMap<EasingFunction, Observable<BezierFit>>();
+
+/**
+ * Fitting takes a while, so every easing function is fitted once, in a task
+ * of its own so that the page stays responsive while the graphs wait for it.
+ */
+const bezierFit$ = (easingFunction: EasingFunction): Observable<BezierFit> => {
+  const cached = bezierFits.get(easingFunction);
+
+  if (cached) return cached;
+
+  const fit$ = timer(0).pipe(
+    map(() => fitCubicBezier(easingFunction)),
+    shareReplay(1)
+  );
+  bezierFits.set(easingFunction, fit$);
+
+  return fit$;
 };
 
+const curveLines = (easingFunction: EasingFunction, count: number = 100): Line[] =>
+  Array.from({ length: count }, (_, index): Line => ({
+    from: { x: index / count, y: easingFunction(index / count, 0, 1, 1) },
+    to: { x: (index + 1) / count, y: easingFunction((index + 1) / count, 0, 1, 1) }
+  }));
+
+const drawVelocityGraph = (screen: Screen, lines: Line[]): void => drawLines(screen, lines, '#ff9800', [2, 2]);
+
+/**
+ * The velocity curve of the easing, scaled so that its fastest point touches
+ * the top of the graph.
+ */
+const velocityLines = (easingFunction: EasingFunction): Line[] => {
+  const { velocity, maxVelocity } = analyzeEasing(easingFunction);
+  const scale = maxVelocity !== 0 ? Math.abs(maxVelocity) : 1;
+
+  const coordinates = velocity.map((sample): Coordinate => ({
+    x: sample.progress,
+    y: sample.value / scale
+  }));
+
+  return coordinates.slice(1).map((to, index): Line => ({
+    from: coordinates[index],
+    to: to
+  }));
+};
+
+const getHighlightCoordinateHintLines = (graph: Graph, highlightCoordinate: Coordinate): Line[] => [
+  {
+    from: { x: 0, y: highlightCoordinate.y },
+    to: highlightCoordinate
+  },
+  {
+    from: { x: highlightCoordinate.x, y: graph.values.min },
+    to: highlightCoordinate
+  },
+];
+
 const drawHighlightHints = (screen: Screen, hightlightCoordinate: Coordinate | null): void => {
   if (!hightlightCoordinate) {
     return;
   }
 
-  const hintLines = getHighlightCoordinateHintLines(hightlightCoordinate);
+  const hintLines = getHighlightCoordinateHintLines(screen.graph, hightlightCoordinate);
   drawLines(screen, hintLines, '#bdbdbd', [5, 5]);
 };
 
@@ -272,7 +444,8 @@ const drawHighlightPosition = (screen: Screen, hightlightCoordinate: Coordinate
     return;
   }
 
-  const stat = `(${Math.floor(hightlightCoordinate.x * animationOptions.duration)}, ${Math.floor(hightlightCoordinate.y * animationOptions.to)})`;
+  const { from, to, duration } = animationOptions;
+  const stat = `(${Math.floor(hightlightCoordinate.x * duration)}, ${formatTick(from + hightlightCoordinate.y * (to - from))})`;
 
   const context = screen.front.context;
 
@@ -282,13 +455,81 @@ const drawHighlightPosition = (screen: Screen, hightlightCoordinate: Coordinate
   context.fillText(stat, screen.width - 10 - screen.front.context.measureText(stat).width, 20);
 };
 
+const colorRampFrom = parseColor('#5F021F');
+const colorRampTo = parseColor('#00bcd4');
+
+const colorRampGradient = (easingFunction: EasingFunction, colorSpace: ColorSpace): string => {
+  const stops = Array.from({ length: 31 }, (_, i) => formatColor(
+    mixColors(colorRampFrom, colorRampTo, easingFunction(i, 0, 1, 30), colorSpace)
+  ));
+
+  return `linear-gradient(to right, ${stops.join(', ')})`;
+};
+
+const formatFrameReport = (report: FrameReport): string => [
+  `${report.frameCount} frames, ${report.droppedFrames} dropped`,
+  `interval ${report.meanFrameInterval.toFixed(1)}ms mean, ${report.maxFrameInterval.toFixed(1)}ms max`,
+  `deviation ${(report.maxDeviation * 100).toFixed(2)}% max, ${(report.rmsDeviation * 100).toFixed(2)}% rms`
+].join('\n');
+
+type ExportFormat = 'json' | 'csv' | 'css' | 'waapi';
+
+const exportFormats: Record<ExportFormat, { extension: string, type: string }> = {
+  json: { extension: 'json', type: 'application/json' },
+  csv: { extension: 'csv', type: 'text/csv' },
+  css: { extension: 'css', type: 'text/css' },
+  waapi: { extension: 'json', type: 'application/json' }
+};
+
+const exportCurve = (easingFunction: EasingFunction, format: ExportFormat): string => {
+  switch (format) {
+    case 'json':
+      return curveToJSON(sampleCurve(easingFunction));
+    case 'csv':
+      return curveToCSV(sampleCurve(easingFunction));
+    case 'css':
+      return `animation-timing-function: ${curveToCssLinear(easingFunction)};`;
+    case 'waapi':
+      return JSON.stringify(curveToKeyframes(sampleCurve(easingFunction, { frameRate: 60, duration: 1000 }), value => ({ opacity: value })), null, 2);
+  }
+};
+
+const downloadCurve = (name: string, easingFunction: EasingFunction, format: ExportFormat): void => {
+  const { extension, type } = exportFormats[format];
+  const url = URL.createObjectURL(new Blob([exportCurve(easingFunction, format)], { type: type }));
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name.replace(/[^\w-]+/g, '-')}.${format === 'waapi' ? 'keyframes.' : ''}${extension}`;
+  link.click();
+
+  // Revoking right after the click cancels the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const jumpToEnd: EasingFunction = (elapsed, start, delta) => start + delta;
+
+/**
+ * Previews what the motion policy does to a tween: reduced motion shortens it
+ * and calms its easing, no motion jumps straight to the end.
+ */
+const withMotionMode = (animationOptions: AnimationOptions, motionMode: MotionMode): AnimationOptions => {
+  const timing = motionTiming(motionMode, animationOptions.duration, animationOptions.easingFunction);
+
+  return timing
+    ? { ...animationOptions, duration: timing.duration, easingFunction: timing.easing }
+    : { ...animationOptions, easingFunction: jumpToEnd };
+};
+
 const normalizeCoordinate = (graph: Graph, absoluteX: number, absoluteY: number): Coordinate => {
   const xAxis = graph.x;
   const yAxis = graph.y;
 
+  const values = graph.values;
+
   return {
     x: (absoluteX - xAxis.min) / xAxis.delta,
-    y: (absoluteY - yAxis.min) / yAxis.delta
+    y: values.min + (absoluteY - yAxis.min) / yAxis.delta * (values.max - values.min)
   };
 };
 
@@ -296,25 +537,38 @@ const absoluteCoordinate = (graph: Graph, coordinate: Coordinate): Coordinate =>
   const x = graph.x;
   const y = graph.y;
 
+  const values = graph.values;
+
   return {
     x: x.min + coordinate.x * x.delta,
-    y: y.min + coordinate.y * y.delta
+    y: y.min + (coordinate.y - values.min) / (values.max - values.min) * y.delta
   };
 };
 
+/**
+ * Where the tweened value is at `elapsed`, as a fraction of the way from
+ * `from` to `to`. Works for any direction of the tween.
+ */
+const normalizedValue = ({ from, to, duration, easingFunction }: AnimationOptions, elapsed: number): number =>
+  to === from ? 1 : (easingFunction(elapsed, from, to - from, duration) - from) / (to - from);
+
+const canvasCoordinate$ = (screen: Screen, eventName: string) =>
+  fromEvent(screen.front.canvas, eventName).pipe(
+    map(event => event as MouseEvent),
+    map(event => normalizeCoordinate(screen.graph, event.offsetX, event.offsetY))
+  );
+
 const graph$ = (
   screen: Screen,
+  frameReport: HTMLElement,
   animationOptions: AnimationOptions,
   renderOptions: RenderOptions
 ) =>
   defer(() => {
     const mouseEnter$ = fromEvent(screen.front.canvas, "mouseenter");
-    const mouseMove$ = fromEvent(screen.front.canvas, "mousemove");
     const mouseLeft$ = fromEvent(screen.front.canvas, "mouseleave");
 
-    const mouseCoordinate$ = mouseMove$.pipe(
-      map(event => event as MouseEvent),
-      map(event => normalizeCoordinate(screen.graph, event.offsetX, event.offsetY)),
+    const mouseCoordinate$ = canvasCoordinate$(screen, "mousemove").pipe(
       takeUntil(mouseLeft$),
       endWith(null)
     );
@@ -325,17 +579,23 @@ const graph$ = (
       distinctUntilChanged((a, b) => a?.x === b?.x && a?.y === b?.y)
     );
 
-    const valueDelta = Math.abs(animationOptions.to - animationOptions.from);
+    const velocity = renderOptions.renderVelocity ? velocityLines(animationOptions.easingFunction) : [];
+    const fitted$ = renderOptions.renderFitted
+      ? bezierFit$(animationOptions.easingFunction).pipe(
+        map(fit => ({ fit: fit, lines: curveLines(fit.easing) })),
+        startWith(null)
+      )
+      : of(null);
+
+    const elapsed$ = elapsedFrames(animationOptions.duration, animationOptions.frames).pipe(
+      shareReplay()
+    );
 
-    const coordinate$ = animationFrames().pipe(
-      map(frame => frame.elapsed),
+    const coordinate$ = elapsed$.pipe(
       map((elapsed): Coordinate => ({
         x: elapsed / animationOptions.duration,
-        y: animationOptions.easingFunction(elapsed, animationOptions.from, valueDelta, animationOptions.duration) / animationOptions.to
+        y: normalizedValue(animationOptions, elapsed)
       })),
-      startWith({ x: 0, y: animationOptions.from }),
-      takeWhile(coordinate => coordinate.x < 1),
-      endWith({ x: 1, y: 1 }),
       shareReplay(1)
     );
 
@@ -355,9 +615,9 @@ const graph$ = (
     const optimalLines$ = range(1, animationOptions.duration).pipe(
       map((elapsed): Coordinate => ({
         x: elapsed / animationOptions.duration,
-        y: animationOptions.easingFunction(elapsed, animationOptions.from, valueDelta, animationOptions.duration) / animationOptions.to
+        y: normalizedValue(animationOptions, elapsed)
       })),
-      startWith({ x: 0, y: animationOptions.from }),
+      startWith({ x: 0, y: normalizedValue(animationOptions, 0) }),
       takeWhile(point => point.x < 1),
       endWith({ x: 1, y: 1 }),
       pairwise(),
@@ -387,10 +647,16 @@ const graph$ = (
       })
     );
 
-    return optimalLines$.pipe(
-      switchMap(optimalLines => normalizedLines$.pipe(
+    const frameReport$ = elapsed$.pipe(
+      diagnoseFrames(animationOptions.duration, animationOptions.easingFunction),
+      startWith(null),
+      tap(report => frameReport.innerText = report ? formatFrameReport(report) : '')
+    );
+
+    const renderedLines$ = combineLatest([optimalLines$, fitted$]).pipe(
+      switchMap(([optimalLines, fitted]) => normalizedLines$.pipe(
         tap(lines => {
-          drawAxis(screen);
+          drawAxis(screen, animationOptions);
 
           if (renderOptions.renderFramelines) {
             drawFramelines(screen, lines.map(line => line.to.x));
@@ -400,6 +666,14 @@ const graph$ = (
             drawOptimalGraph(screen, optimalLines);
           }
 
+          if (fitted) {
+            drawFittedGraph(screen, fitted.lines, fitted.fit);
+          }
+
+          if (renderOptions.renderVelocity) {
+            drawVelocityGraph(screen, velocity);
+          }
+
           if (renderOptions.renderEffective) {
             drawGraph(screen, lines);
           }
@@ -412,19 +686,533 @@ const graph$ = (
         })
       )),
       switchMapTo(renderOptions.renderCoords ? renderHighlights$ : NEVER)
-    )
+    );
+
+    return merge(frameReport$, renderedLines$);
   });
 
+const scrubberSteps = 1000;
+
+const scrubber$ = (
+  screen: Screen,
+  scrubber: HTMLInputElement,
+  animationOptions: AnimationOptions
+) =>
+  defer(() => {
+    const controller = createPlaybackController(
+      animationOptions.duration,
+      (progress): Coordinate => ({
+        x: progress,
+        y: normalizedValue(animationOptions, progress * animationOptions.duration)
+      })
+    );
+
+    const seek$ = fromEvent(scrubber, 'input').pipe(
+      map(() => Number(scrubber.value) / scrubberSteps),
+      tap(progress => controller.seek(progress))
+    );
+
+    const progress$ = controller.progress$.pipe(
+      tap(progress => scrubber.value = String(Math.round(progress * scrubberSteps)))
+    );
+
+    const marker$ = controller.value$.pipe(
+      skip(1),
+      tap(coordinate => {
+        drawCache(screen);
+        drawHighlightHints(screen, coordinate);
+        drawHighlightPosition(screen, coordinate, animationOptions);
+        drawCoordinates(screen, [coordinate], '#00bcd4');
+      })
+    );
+
+    return merge(seek$, progress$, marker$).pipe(
+      finalize(() => controller.destroy())
+    );
+  });
+
+type CustomCurve =
+  | { kind: 'cubic-bezier', points: BezierPoints }
+  | { kind: 'linear', points: Coordinate[] };
+
+interface EditorState {
+  curve: CustomCurve;
+  dragging: number | null;
+}
+
+const defaultCurves: Record<CustomCurve['kind'], CustomCurve> = {
+  'cubic-bezier': { kind: 'cubic-bezier', points: { x1: .25, y1: .1, x2: .25, y2: 1 } },
+  'linear': { kind: 'linear', points: [{ x: .3, y: .8 }, { x: .6, y: .9 }] }
+};
+
+const HANDLE_RADIUS = .05;
+
+/** Leaves room to drag handles past 0 and 1. */
+const editorValueRange: ValueRange = { min: -.5, max: 1.5 };
+const CURVE_PARAM = 'curve';
+
+const roundTo = (value: number) => Number(value.toFixed(3));
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const customCurveEasing = (curve: CustomCurve): EasingFunction => curve.kind === 'cubic-bezier'
+  ? cubicBezier(curve.points.x1, curve.points.y1, curve.points.x2, curve.points.y2)
+  : linear([{ output: 0 }, ...curve.points.map(point => ({ output: point.y, input: point.x })), { output: 1 }]);
+
+const customCurveCss = (curve: CustomCurve): string => {
+  if (curve.kind === 'cubic-bezier') {
+    const { x1, y1, x2, y2 } = curve.points;
+    return `cubic-bezier(${roundTo(x1)}, ${roundTo(y1)}, ${roundTo(x2)}, ${roundTo(y2)})`;
+  }
+
+  const stops = curve.points.map(point => `${roundTo(point.y)} ${roundTo(point.x * 100)}%`);
+  return `linear(${['0', ...stops, '1'].join(', ')})`;
+};
+
+const customCurveCode = (curve: CustomCurve): string => {
+  if (curve.kind === 'cubic-bezier') {
+    const { x1, y1, x2, y2 } = curve.points;
+    return `cubicBezier(${roundTo(x1)}, ${roundTo(y1)}, ${roundTo(x2)}, ${roundTo(y2)})`;
+  }
+
+  const stops = curve.points.map(point => `{ output: ${roundTo(point.y)}, input: ${roundTo(point.x)} }`);
+  return `linear([{ output: 0 }, ${stops.join(', ')}, { output: 1 }])`;
+};
+
+/**
+ * Reads back what `customCurveCss` wrote into the URL, or `null` for anything
+ * else.
+ */
+const parseCustomCurve = (css: string): CustomCurve | null => {
+  const match = /^(cubic-bezier|linear)\((.*)\)$/.exec(css.trim());
+
+  if (!match) return null;
+
+  const args = match[2].split(',').map(arg => arg.trim());
+
+  if (match[1] === 'cubic-bezier') {
+    const [x1, y1, x2, y2] = args.map(Number);
+
+    if (args.length !== 4 || [x1, y1, x2, y2].some(value => !isFinite(value))) return null;
+
+    return { kind: 'cubic-bezier', points: { x1: clamp(x1, 0, 1), y1: y1, x2: clamp(x2, 0, 1), y2: y2 } };
+  }
+
+  const points = args.slice(1, -1).map(arg => /^(-?[\d.]+) (-?[\d.]+)%$/.exec(arg));
+
+  if (args.length < 2 || points.some(point => !point)) return null;
+
+  return {
+    kind: 'linear',
+    points: points.map(point => ({ x: Number((point as RegExpExecArray)[2]) / 100, y: Number((point as RegExpExecArray)[1]) }))
+  };
+};
+
+const curveHandles = (curve: CustomCurve): Coordinate[] => curve.kind === 'cubic-bezier'
+  ? [{ x: curve.points.x1, y: curve.points.y1 }, { x: curve.points.x2, y: curve.points.y2 }]
+  : curve.points;
+
+const closestHandle = (curve: CustomCurve, coordinate: Coordinate): number | null => {
+  const handle = closestCoordinate(curveHandles(curve), coordinate);
+
+  if (!handle || Math.hypot(handle.x - coordinate.x, handle.y - coordinate.y) > HANDLE_RADIUS) return null;
+
+  return curveHandles(curve).indexOf(handle);
+};
+
+/**
+ * Moves a handle, keeping bezier x coordinates within 0 and 1 and keyframe
+ * points in between their neighbours.
+ */
+const moveHandle = (curve: CustomCurve, index: number, { x, y }: Coordinate): CustomCurve => {
+  if (curve.kind === 'cubic-bezier') {
+    const points = index === 0
+      ? { ...curve.points, x1: clamp(x, 0, 1), y1: y }
+      : { ...curve.points, x2: clamp(x, 0, 1), y2: y };
+
+    return { kind: 'cubic-bezier', points: points };
+  }
+
+  const min = index > 0 ? curve.points[index - 1].x : 0;
+  const max = index < curve.points.length - 1 ? curve.points[index + 1].x : 1;
+
+  return {
+    kind: 'linear',
+    points: curve.points.map((point, i) => i === index ? { x: clamp(x, min, max), y: y } : point)
+  };
+};
+
+const grabHandle = (state: EditorState, coordinate: Coordinate): EditorState => {
+  const index = closestHandle(state.curve, coordinate);
+
+  if (index !== null || state.curve.kind !== 'linear' || coordinate.x <= 0 || coordinate.x >= 1) {
+    return { curve: state.curve, dragging: index };
+  }
+
+  const points = [...state.curve.points, coordinate].sort((a, b) => a.x - b.x);
+
+  return { curve: { kind: 'linear', points: points }, dragging: points.indexOf(coordinate) };
+};
+
+const removeHandle = (state: EditorState, coordinate: Coordinate): EditorState => {
+  const index = closestHandle(state.curve, coordinate);
+
+  if (index === null || state.curve.kind !== 'linear') return state;
+
+  return {
+    curve: { kind: 'linear', points: state.curve.points.filter((_, i) => i !== index) },
+    dragging: null
+  };
+};
+
+const drawHandles = (screen: Screen, curve: CustomCurve): void => {
+  if (curve.kind === 'cubic-bezier') {
+    drawLines(screen, [
+      { from: { x: 0, y: 0 }, to: { x: curve.points.x1, y: curve.points.y1 } },
+      { from: { x: 1, y: 1 }, to: { x: curve.points.x2, y: curve.points.y2 } }
+    ], '#bdbdbd');
+  }
+
+  const context = screen.front.context;
+  context.fillStyle = '#00bcd4';
+
+  curveHandles(curve)
+    .map(handle => absoluteCoordinate(screen.graph, handle))
+    .forEach(({ x, y }) => {
+      context.beginPath();
+      context.arc(x, y, 5, 0, Math.PI * 2, true);
+      context.fill();
+    });
+};
+
+const drawCustomCurve = (screen: Screen, curve: CustomCurve): void => {
+  drawAxis(screen);
+  drawGraph(screen, curveLines(customCurveEasing(curve), 200));
+  drawHandles(screen, curve);
+  saveToCache(screen);
+};
+
+const initialCustomCurve = (): CustomCurve =>
+  parseCustomCurve(new URLSearchParams(location.search).get(CURVE_PARAM) ?? '') ?? defaultCurves['cubic-bezier'];
+
+const storeCustomCurve = (curve: CustomCurve): void => {
+  const params = new URLSearchParams(location.search);
+  params.set(CURVE_PARAM, customCurveCss(curve));
+  history.replaceState(null, '', `${location.pathname}?${params}${location.hash}`);
+};
+
+const copyToClipboard = (text: string): Promise<boolean> =>
+  navigator.clipboard ? navigator.clipboard.writeText(text).then(() => true, () => false) : Promise.resolve(false);
+
+/**
+ * Copies the latest text on every click and tells on the button whether that
+ * worked, since the clipboard can be denied or need the document focused.
+ */
+const copyButton$ = (button: HTMLButtonElement, text$: Observable<string>) => {
+  const label = button.innerText;
+
+  return fromEvent(button, 'click').pipe(
+    withLatestFrom(text$),
+    switchMap(([, text]) => copyToClipboard(text)),
+    switchMap(copied => concat(of(copied ? 'copied' : 'copy failed'), timer(1500).pipe(mapTo(label)))),
+    tap(text => button.innerText = text)
+  );
+};
+
+/**
+ * A graph card with a curve to edit: drag the bezier handles, or click to add,
+ * drag to move and double-click to remove linear() points. The curve is kept
+ * in the URL and previewed on a ball.
+ */
+const customEasingEditor$ = (container: HTMLElement, duration$: Observable<number>) =>
+  defer(() => {
+    const screen = createScreen(300, 300, editorValueRange);
+    const initialCurve = initialCustomCurve();
+
+    const graph = document.createElement('div');
+    graph.classList.add('graph', 'editor');
+
+    const graphHeader = document.createElement('div');
+    graphHeader.classList.add('graph-header');
+    graphHeader.innerText = 'custom';
+
+    const kind = document.createElement('select');
+    kind.classList.add('export-format');
+    (Object.keys(defaultCurves) as CustomCurve['kind'][]).forEach(name => kind.add(new Option(name, name)));
+    kind.value = initialCurve.kind;
+
+    const copyCodeBtn = document.createElement('button');
+    copyCodeBtn.innerText = 'copy code';
+    copyCodeBtn.classList.add('export-button');
+
+    const copyCssBtn = document.createElement('button');
+    copyCssBtn.innerText = 'copy css';
+    copyCssBtn.classList.add('export-button');
+
+    graphHeader.appendChild(kind);
+    graphHeader.appendChild(copyCodeBtn);
+    graphHeader.appendChild(copyCssBtn);
+
+    const previewTrack = document.createElement('div');
+    previewTrack.classList.add('preview-track');
+
+    const previewBall = document.createElement('div');
+    previewBall.classList.add('preview-ball');
+    previewTrack.appendChild(previewBall);
+
+    const css = document.createElement('pre');
+    css.classList.add('frame-report');
+
+    graph.appendChild(graphHeader);
+    graph.appendChild(screen.front.canvas);
+    graph.appendChild(previewTrack);
+    graph.appendChild(css);
+    container.prepend(graph);
+
+    const initialState: EditorState = { curve: initialCurve, dragging: null };
+
+    const kindChange$ = fromEvent(kind, 'change').pipe(
+      map(() => (): EditorState => ({ curve: defaultCurves[kind.value as CustomCurve['kind']], dragging: null }))
+    );
+
+    const grab$ = canvasCoordinate$(screen, 'mousedown').pipe(
+      map(coordinate => (state: EditorState) => grabHandle(state, coordinate))
+    );
+
+    const drag$ = canvasCoordinate$(screen, 'mousemove').pipe(
+      map(coordinate => (state: EditorState): EditorState => state.dragging === null
+        ? state
+        : { curve: moveHandle(state.curve, state.dragging, coordinate), dragging: state.dragging })
+    );
+
+    const release$ = fromEvent(document, 'mouseup').pipe(
+      map(() => (state: EditorState): EditorState => ({ curve: state.curve, dragging: null }))
+    );
+
+    const remove$ = canvasCoordinate$(screen, 'dblclick').pipe(
+      map(coordinate => (state: EditorState) => removeHandle(state, coordinate))
+    );
+
+    const curve$ = merge(kindChange$, grab$, drag$, release$, remove$).pipe(
+      scan((state, update) => update(state), initialState),
+      startWith(initialState),
+      map(state => state.curve),
+      distinctUntilChanged(),
+      shareReplay(1)
+    );
+
+    const drawn$ = curve$.pipe(
+      tap(curve => {
+        drawCustomCurve(screen, curve);
+        css.innerText = customCurveCss(curve);
+      })
+    );
+
+    const stored$ = curve$.pipe(
+      debounceTime(300),
+      tap(storeCustomCurve)
+    );
+
+    const preview$ = combineLatest([curve$.pipe(debounceTime(300)), duration$]).pipe(
+      switchMap(([curve, duration]) => concat(
+        animateStyle(previewBall, 'translateX', { from: 0, to: 280, duration: duration, easing: customCurveEasing(curve) }),
+        timer(500)
+      ).pipe(repeat()))
+    );
+
+    const copied$ = merge(
+      copyButton$(copyCodeBtn, curve$.pipe(map(customCurveCode))),
+      copyButton$(copyCssBtn, curve$.pipe(map(customCurveCss)))
+    );
+
+    return merge(
+      drawn$,
+      stored$,
+      preview$,
+      copied$
+    );
+  });
+
+const comparisonColors = ['#5F021F', '#00bcd4', '#ff9800', '#4caf50', '#9c27b0', '#2196f3'];
+
+/**
+ * Draws with a value range that fits every curve, which depends on the
+ * selection and so cannot be fixed when the screen is created.
+ */
+const drawComparison = (screen: Screen, easings: [string, EasingFunction][]): void => {
+  const ranges = easings.map(([, easingFunction]) => autoValueRange(easingFunction));
+  const fitted: Screen = {
+    ...screen,
+    graph: createGraph(screen.width, screen.height, {
+      min: Math.min(0, ...ranges.map(values => values.min)),
+      max: Math.max(1, ...ranges.map(values => values.max))
+    })
+  };
+
+  drawAxis(fitted);
+  easings.forEach(([, easingFunction], index) =>
+    drawLines(fitted, curveLines(easingFunction, 200), comparisonColors[index % comparisonColors.length]));
+};
+
+/**
+ * One graph with the chosen easings on top of each other and a ball per
+ * easing. The balls run on a shared frame source so they start and land
+ * together.
+ */
+const comparison$ = (container: HTMLElement, easings: Record<string, EasingFunction>, duration$: Observable<number>) =>
+  defer(() => {
+    const screen = createScreen(450, 300);
+
+    const graph = document.createElement('div');
+    graph.classList.add('graph', 'comparison');
+
+    const graphHeader = document.createElement('div');
+    graphHeader.classList.add('graph-header');
+    graphHeader.innerText = 'compare';
+
+    const picker = document.createElement('select');
+    picker.multiple = true;
+    picker.classList.add('comparison-picker');
+    Object.keys(easings).forEach(name => picker.add(new Option(name, name, false, ['easeOutCubic', 'easeOutQuart'].includes(name))));
+
+    const legend = document.createElement('div');
+    legend.classList.add('comparison-legend');
+
+    const balls = document.createElement('div');
+    balls.classList.add('comparison-balls');
+
+    graph.appendChild(graphHeader);
+    graph.appendChild(screen.front.canvas);
+    graph.appendChild(balls);
+    graph.appendChild(legend);
+    graph.appendChild(picker);
+    container.prepend(graph);
+
+    const selected$ = fromEvent(picker, 'change').pipe(
+      startWith(undefined),
+      map(() => Array.from(picker.selectedOptions).map(option => option.value)),
+      map(names => names.map((name): [string, EasingFunction] => [name, easings[name]])),
+      shareReplay(1)
+    );
+
+    const drawn$ = selected$.pipe(
+      tap(selected => {
+        drawComparison(screen, selected);
+
+        legend.innerHTML = '';
+        balls.innerHTML = '';
+
+        selected.forEach(([name], index) => {
+          const color = comparisonColors[index % comparisonColors.length];
+
+          const entry = document.createElement('span');
+          entry.classList.add('comparison-legend-entry');
+          entry.style.borderColor = color;
+          entry.innerText = name;
+          legend.appendChild(entry);
+
+          const track = document.createElement('div');
+          track.classList.add('preview-track');
+
+          const ball = document.createElement('div');
+          ball.classList.add('preview-ball');
+          ball.style.backgroundColor = color;
+
+          track.appendChild(ball);
+          balls.appendChild(track);
+        });
+      })
+    );
+
+    const previews$ = combineLatest([drawn$, duration$]).pipe(
+      switchMap(([selected, duration]) => {
+        const tracks = Array.from(balls.querySelectorAll<HTMLElement>('.preview-ball'));
+
+        const run = parallel(selected.map(([, easingFunction], index) => timeline(
+          { from: 0, to: 430, duration: duration, easing: easingFunction },
+          value => tracks[index].style.transform = `translateX(${value}px)`
+        )));
+
+        return concat(play(run), timer(500)).pipe(repeat());
+      })
+    );
+
+    return previews$;
+  });
+
+const overshoots = (easingFunction: EasingFunction): boolean => {
+  const { overshoot, undershoot } = analyzeEasing(easingFunction, { samples: 100 });
+
+  return overshoot > 0 || undershoot > 0;
+};
+
+/**
+ * The demo's own curves, registered next to the built-in ones so that they
+ * can be grouped and filtered the same way.
+ */
+const registerDemoEasings = () => {
+  const keyframed = normalizedEasing(keyframeTrack([
+    { at: 0, value: 0 },
+    { at: .3, value: .8, easing: 'easeOutBack' },
+    { at: 1, value: 1, easing: 'easeInOutSine' }
+  ]));
+
+  const springs = [
+    { name: 'spring()', options: { stiffness: 100, damping: 10 } },
+    { name: 'spring({ stiffness: 180, damping: 12 })', options: { stiffness: 180, damping: 12 } },
+    { name: 'spring({ stiffness: 120, damping: 30 })', options: { stiffness: 120, damping: 30 } }
+  ];
+
+  const registry = easingRegistry.register('cubic-bezier(.17,.67,.83,.67)', {
+    easing: cubicBezier(.17, .67, .83, .67),
+    family: 'cubic-bezier',
+    direction: 'inOut',
+    overshoots: false,
+    parameters: { x1: .17, y1: .67, x2: .83, y2: .67 }
+  });
+
+  springs.forEach(({ name, options }) => {
+    const easing = spring(options);
+    registry.register(name, { easing: easing, family: 'spring', direction: 'out', overshoots: overshoots(easing), parameters: options });
+  });
+
+  return registry.register('keyframes(0, .8 easeOutBack @ .3, 1 easeInOutSine)', {
+    easing: keyframed,
+    family: 'keyframes',
+    direction: 'out',
+    overshoots: overshoots(keyframed)
+  });
+};
+
+interface EasingFilter {
+  family: string;
+  direction: EasingDirection | 'all';
+  overshootsOnly: boolean;
+}
+
+const matchesFilter = (entry: EasingEntry, filter: EasingFilter): boolean =>
+  (filter.family === 'all' || entry.family === filter.family) &&
+  (filter.direction === 'all' || entry.direction === filter.direction) &&
+  (!filter.overshootsOnly || entry.overshoots);
+
 const init = () => {
   const elements = {
     renderFramelines: document.getElementById('render-framelines') as HTMLInputElement,
     renderOptimal: document.getElementById('render-optimal') as HTMLInputElement,
+    renderVelocity: document.getElementById('render-velocity') as HTMLInputElement,
+    renderFitted: document.getElementById('render-fitted') as HTMLInputElement,
     renderEffective: document.getElementById('render-effective') as HTMLInputElement,
     renderPoints: document.getElementById('render-points') as HTMLInputElement,
     renderCoords: document.getElementById('render-coords') as HTMLInputElement,
     graphsContainer: document.getElementById('graphs') as HTMLDivElement,
     durationIndicator: document.getElementById('duration-indicator') as HTMLSpanElement,
     durationRange: document.getElementById("duration-range") as HTMLInputElement,
+    durationAuto: document.getElementById('duration-auto') as HTMLInputElement,
+    colorSpace: document.getElementById('color-space') as HTMLSelectElement,
+    motionMode: document.getElementById('motion-mode') as HTMLSelectElement,
+    filterFamily: document.getElementById('filter-family') as HTMLSelectElement,
+    filterDirection: document.getElementById('filter-direction') as HTMLSelectElement,
+    filterOvershoots: document.getElementById('filter-overshoots') as HTMLInputElement,
   } as const;
 
   if (Object.values(elements).some(element => !element)) {
@@ -441,7 +1229,21 @@ const init = () => {
     map(target => target.value),
     startWith(elements.durationRange.value),
     map(value => Number(value)),
-    tap(duration => elements.durationIndicator.innerText = `${duration}ms`),
+    shareReplay(1)
+  );
+
+  const durationAuto$ = fromEvent(elements.durationAuto, 'change').pipe(
+    map(event => event.target as HTMLInputElement),
+    map(target => target.checked),
+    startWith(elements.durationAuto.checked),
+    distinctUntilChanged()
+  );
+
+  const durationOptions$ = combineLatest([
+    duration$,
+    durationAuto$
+  ]).pipe(
+    tap(([duration, durationAuto]) => elements.durationIndicator.innerText = durationAuto ? `${duration}ms, springs auto` : `${duration}ms`),
     shareReplay(1)
   );
 
@@ -466,6 +1268,20 @@ const init = () => {
     distinctUntilChanged()
   );
 
+  const renderVelocity$ = fromEvent(elements.renderVelocity, 'change').pipe(
+    map(event => event.target as HTMLInputElement),
+    map(target => target.checked),
+    startWith(elements.renderVelocity.checked),
+    distinctUntilChanged()
+  );
+
+  const renderFitted$ = fromEvent(elements.renderFitted, 'change').pipe(
+    map(event => event.target as HTMLInputElement),
+    map(target => target.checked),
+    startWith(elements.renderFitted.checked),
+    distinctUntilChanged()
+  );
+
   const renderEffective$ = fromEvent(elements.renderEffective, 'change').pipe(
     map(event => event.target as HTMLInputElement),
     map(target => target.checked),
@@ -484,24 +1300,76 @@ const init = () => {
     renderPoints$,
     renderCoords$,
     renderOptimal$,
+    renderVelocity$,
+    renderFitted$,
     renderEffective$,
     renderFramelines$
   ]).pipe(
-    map(([renderPoints, renderCoords, renderOptimal, renderEffective, renderFramelines]): RenderOptions => ({
+    map(([renderPoints, renderCoords, renderOptimal, renderVelocity, renderFitted, renderEffective, renderFramelines]): RenderOptions => ({
       renderPoints: renderPoints,
       renderCoords: renderCoords,
       renderOptimal: renderOptimal,
+      renderVelocity: renderVelocity,
+      renderFitted: renderFitted,
       renderEffective: renderEffective,
       renderFramelines: renderFramelines
     })),
     shareReplay(1)
   );
 
-  const graphStreams = Object.entries(easingFunctions).map(([name, easingFunction]) => {
-    const screen = createScreen(300, 300);
+  const colorSpace$ = fromEvent(elements.colorSpace, 'change').pipe(
+    map(event => event.target as HTMLSelectElement),
+    map(target => target.value),
+    startWith(elements.colorSpace.value),
+    map(value => value as ColorSpace),
+    shareReplay(1)
+  );
+
+  const motionModeOverride$ = fromEvent(elements.motionMode, 'change').pipe(
+    map(event => event.target as HTMLSelectElement),
+    map(target => target.value),
+    startWith(elements.motionMode.value),
+    map(value => value === 'system' ? null : value as MotionMode),
+    tap(motionMode => setMotionMode(motionMode))
+  );
+
+  const activeMotionMode$ = motionModeOverride$.pipe(
+    switchMapTo(motionMode$),
+    distinctUntilChanged(),
+    shareReplay(1)
+  );
+
+  const entries: EasingEntry[] = registerDemoEasings().entries();
+  const families = Array.from(new Set(entries.map(entry => entry.family)));
+
+  families.forEach(family => elements.filterFamily.add(new Option(family, family)));
+
+  const graphedEasingFunctions: Record<string, EasingFunction> = {};
+  entries.forEach(entry => graphedEasingFunctions[entry.name] = entry.easing);
+
+  const groupHeadings = new Map(families.map(family => {
+    const heading = document.createElement('h3');
+    heading.classList.add('graph-group');
+    heading.innerText = family;
+
+    return [family, heading];
+  }));
+
+  const cards: { entry: EasingEntry, element: HTMLElement }[] = [];
+
+  const groupedEntries = families.reduce((acc, family) => [...acc, ...entries.filter(entry => entry.family === family)], [] as EasingEntry[]);
+
+  const graphStreams = groupedEntries.map(entry => {
+    const { name, easing: easingFunction } = entry;
+    const screen = createScreen(300, 300, autoValueRange(easingFunction));
 
     const graph = document.createElement('div');
     graph.classList.add('graph');
+    cards.push({ entry: entry, element: graph });
+
+    if (groupHeadings.get(entry.family)?.parentElement === null) {
+      elements.graphsContainer.appendChild(groupHeadings.get(entry.family) as HTMLElement);
+    }
 
     const refreshBtn = document.createElement('img');
     refreshBtn.src = './assets/refresh.svg';
@@ -512,28 +1380,92 @@ const init = () => {
     graphHeader.innerText = name;
     graphHeader.appendChild(refreshBtn)
 
+    const exportFormat = document.createElement('select');
+    exportFormat.classList.add('export-format');
+    (Object.keys(exportFormats) as ExportFormat[]).forEach(format => exportFormat.add(new Option(format, format)));
+
+    const exportBtn = document.createElement('button');
+    exportBtn.innerText = 'export';
+    exportBtn.classList.add('export-button');
+
+    graphHeader.appendChild(exportFormat);
+    graphHeader.appendChild(exportBtn);
+
     graph.appendChild(graphHeader);
+    const colorRamp = document.createElement('div');
+    colorRamp.classList.add('color-ramp');
+
     graph.appendChild(screen.front.canvas);
+    graph.appendChild(colorRamp);
+
+    const scrubber = document.createElement('input');
+    scrubber.type = 'range';
+    scrubber.min = '0';
+    scrubber.max = String(scrubberSteps);
+    scrubber.classList.add('scrubber');
+
+    graph.appendChild(scrubber);
+
+    const frameReport = document.createElement('pre');
+    frameReport.classList.add('frame-report');
+
+    graph.appendChild(frameReport);
     elements.graphsContainer.appendChild(graph);
 
-    const animationOptions$ = duration$.pipe(
-      map((duration): AnimationOptions => ({
+    const colorRamp$ = colorSpace$.pipe(
+      tap(colorSpace => colorRamp.style.background = colorRampGradient(easingFunction, colorSpace))
+    );
+
+    const animationOptions$ = combineLatest([durationOptions$, activeMotionMode$]).pipe(
+      map(([[duration, durationAuto], motionMode]): AnimationOptions => withMotionMode({
         from: 0,
         to: 100,
-        duration: duration,
+        duration: durationAuto && hasSettlingDuration(easingFunction) ? easingFunction.settlingDuration : duration,
         easingFunction: easingFunction
-      }))
+      }, motionMode))
     );
 
-    return fromEvent(refreshBtn, 'click').pipe(
+    const renderedGraph$ = fromEvent(refreshBtn, 'click').pipe(
       mapTo(undefined),
       startWith(undefined),
       switchMapTo(combineLatest([animationOptions$, renderOptions$])),
-      switchMap(([animationOptions, renderOptions]) => graph$(screen, animationOptions, renderOptions))
+      switchMap(([animationOptions, renderOptions]) => graph$(screen, frameReport, animationOptions, renderOptions))
+    );
+
+    const scrubbedGraph$ = animationOptions$.pipe(
+      switchMap(animationOptions => scrubber$(screen, scrubber, animationOptions))
+    );
+
+    const exported$ = fromEvent(exportBtn, 'click').pipe(
+      tap(() => downloadCurve(name, easingFunction, exportFormat.value as ExportFormat))
     );
+
+    return merge(colorRamp$, renderedGraph$, scrubbedGraph$, exported$);
   });
 
-  combineLatest(graphStreams).subscribe();
+  const filter$ = combineLatest([
+    fromEvent(elements.filterFamily, 'change').pipe(startWith(undefined), map(() => elements.filterFamily.value)),
+    fromEvent(elements.filterDirection, 'change').pipe(startWith(undefined), map(() => elements.filterDirection.value as EasingFilter['direction'])),
+    fromEvent(elements.filterOvershoots, 'change').pipe(startWith(undefined), map(() => elements.filterOvershoots.checked))
+  ]).pipe(
+    map(([family, direction, overshootsOnly]): EasingFilter => ({
+      family: family,
+      direction: direction,
+      overshootsOnly: overshootsOnly
+    })),
+    tap(filter => {
+      cards.forEach(({ entry, element }) => element.style.display = matchesFilter(entry, filter) ? '' : 'none');
+      groupHeadings.forEach((heading, family) => heading.style.display =
+        cards.some(({ entry }) => entry.family === family && matchesFilter(entry, filter)) ? '' : 'none');
+    })
+  );
+
+  merge(
+    customEasingEditor$(elements.graphsContainer, duration$),
+    comparison$(elements.graphsContainer, graphedEasingFunctions, duration$),
+    combineLatest(graphStreams),
+    filter$
+  ).subscribe();
 };
 
-init();
\ No newline at end of file
+if (typeof document !== 'undefined') init();
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { cssEasingFunctions } from '../configs/css-easing-functions';
+import { easingFunctions } from '../configs/easing-functions';
+import { createManualClock } from '../frames/manual-clock';
+import { keyframes } from '../operators/keyframes';
+import { tween } from '../operators/tween';
+import { MotionMode } from '../types/motion';
+import { currentMotionMode, motionMode$, motionTiming, setMotionMode } from './motion-policy';
+import { collect, linear } from '../testing/spec-helpers';
+
+const { easeInQuad, easeOutBack, easeOutBounce, easeOutElastic } = easingFunctions;
+
+const stubMatchMedia = (matches: boolean) => {
+  const listeners: (() => void)[] = [];
+  const query = {
+    matches: matches,
+    addEventListener: (_: string, listener: () => void) => listeners.push(listener),
+    removeEventListener: () => {}
+  };
+
+  (globalThis as unknown as { matchMedia: unknown }).matchMedia = () => query;
+
+  return (next: boolean) => {
+    query.matches = next;
+    listeners.forEach(listener => listener());
+  };
+};
+
+describe('motion policy', () => {
+  afterEach(() => {
+    setMotionMode(null);
+    delete (globalThis as unknown as { matchMedia?: unknown }).matchMedia;
+  });
+
+  it('follows prefers-reduced-motion unless overridden', () => {
+    const change = stubMatchMedia(false);
+    const modes: MotionMode[] = [];
+
+    const subscription = motionMode$.subscribe(collect(modes));
+    change(true);
+    setMotionMode('none');
+    setMotionMode(null);
+    change(false);
+    subscription.unsubscribe();
+
+    expect(modes).toEqual(['full', 'reduced', 'none', 'reduced', 'full']);
+  });
+
+  it('plays full motion without matchMedia', () => {
+    expect(currentMotionMode()).toBe('full');
+  });
+
+  it('shortens reduced tweens and calms overshooting easings', () => {
+    expect(motionTiming('reduced', 400, easeInQuad)).toEqual({ duration: 200, easing: easeInQuad });
+    [easeOutBack, easeOutBounce, easeOutElastic].forEach(easing => {
+      expect(motionTiming('reduced', 400, easing)?.easing).toBe(cssEasingFunctions['ease-out']);
+    });
+    expect(motionTiming('reduced', 400, { x: easeOutBack, y: easeInQuad })?.easing).toEqual({ x: cssEasingFunctions['ease-out'], y: easeInQuad });
+    expect(motionTiming('none', 400, easeInQuad)).toBeNull();
+  });
+
+  it('makes tweens jump to their end value without motion', () => {
+    const values: number[] = [];
+    let completed = false;
+
+    setMotionMode('none');
+    tween({ from: 0, to: 10, duration: 100, easing: linear, frames: createManualClock().frames })
+      .subscribe({ next: collect(values), complete: () => completed = true });
+
+    expect(values).toEqual([10]);
+    expect(completed).toBe(true);
+  });
+
+  it('runs reduced tweens and keyframes for half the duration', () => {
+    const clock = createManualClock();
+    const tweened: number[] = [];
+    const keyframed: number[] = [];
+
+    setMotionMode('reduced');
+    tween({ from: 0, to: 10, duration: 100, easing: linear, frames: clock.frames }).subscribe(collect(tweened));
+    keyframes([{ at: 0, value: 0 }, { at: 1, value: 10 }], { duration: 100, frames: clock.frames }).subscribe(collect(keyframed));
+    clock.tick(25);
+    clock.tick(25);
+
+    expect(tweened).toEqual([0, 5, 10]);
+    expect(keyframed).toEqual([0, 5, 10]);
+  });
+
+  it('calms overshooting keyframe segments under reduced motion', () => {
+    const clock = createManualClock();
+    const values: number[] = [];
+
+    keyframes([{ at: 0, value: 0 }, { at: 1, value: 100, easing: 'easeOutBack' }], { duration: 100, frames: clock.frames, motion: 'reduced' })
+      .subscribe(collect(values));
+    for (let i = 0; i < 10; i++) clock.tick(5);
+
+    expect(Math.max(...values)).toBe(100);
+    expect(values[5]).toBeCloseTo(cssEasingFunctions['ease-out'](25, 0, 100, 50));
+  });
+
+  it('lets a tween override the global mode', () => {
+    const clock = createManualClock();
+    const values: number[] = [];
+
+    setMotionMode('none');
+    tween({ from: 0, to: 10, duration: 100, easing: linear, frames: clock.frames, motion: 'full' }).subscribe(collect(values));
+    clock.tick(50);
+
+    expect(values).toEqual([0, 5]);
+  });
+});
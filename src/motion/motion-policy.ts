@@ -0,0 +1,110 @@
+import { BehaviorSubject, combineLatest, defer, fromEvent, Observable, of } from 'rxjs';
+import { distinctUntilChanged, map, startWith } from 'rxjs/operators';
+import { EasingFunction } from '../types/easing-function';
+import { MotionMode, MotionTiming } from '../types/motion';
+import { TweenEasing } from '../types/tweenable';
+import { cssEasingFunctions } from '../configs/css-easing-functions';
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+const REDUCED_DURATION_FACTOR = .5;
+const MONOTONY_SAMPLES = 100;
+
+const override$ = new BehaviorSubject<MotionMode | null>(null);
+
+const reducedMotionQuery = (): MediaQueryList | null =>
+  typeof matchMedia === 'function' ? matchMedia(REDUCED_MOTION_QUERY) : null;
+
+const preferredMode = (query: MediaQueryList | null): MotionMode => query?.matches ? 'reduced' : 'full';
+
+const preferredMode$: Observable<MotionMode> = defer(() => {
+  const query = reducedMotionQuery();
+
+  if (!query) return of(preferredMode(query));
+
+  return fromEvent(query, 'change').pipe(
+    startWith(undefined),
+    map(() => preferredMode(query))
+  );
+});
+
+/**
+ * The motion mode tweens follow. It comes from `prefers-reduced-motion`
+ * unless it is overridden with `setMotionMode`.
+ */
+export const motionMode$: Observable<MotionMode> = combineLatest([override$, preferredMode$]).pipe(
+  map(([override, preferred]) => override ?? preferred),
+  distinctUntilChanged()
+);
+
+/**
+ * Overrides the motion mode for every tween, or goes back to following
+ * `prefers-reduced-motion` with `null`.
+ */
+export const setMotionMode = (mode: MotionMode | null): void => override$.next(mode);
+
+export const currentMotionMode = (): MotionMode => override$.value ?? preferredMode(reducedMotionQuery());
+
+/**
+ * Whether the curve leaves the range between 0 and 1 or ever turns back, as
+ * back, elastic and bounce easings do.
+ */
+const isCalm = (easing: EasingFunction): boolean => {
+  let previous = easing(0, 0, 1, 1);
+
+  for (let index = 1; index <= MONOTONY_SAMPLES; index++) {
+    const value = easing(index / MONOTONY_SAMPLES, 0, 1, 1);
+
+    if (value < previous - 1e-9 || value < -1e-9 || value > 1 + 1e-9) return false;
+
+    previous = value;
+  }
+
+  return true;
+};
+
+/**
+ * `easing`, or per property of it, with every overshooting or bouncing
+ * easing swapped for a calm one as reduced motion does.
+ */
+export const calmEasing = <T>(easing: TweenEasing<T>): TweenEasing<T> => {
+  if (typeof easing === 'function') {
+    return isCalm(easing) ? easing : cssEasingFunctions['ease-out'];
+  }
+
+  const calm = (Array.isArray(easing) ? [] : {}) as Record<string, unknown>;
+  Object.keys(easing).forEach(key => calm[key] = calmEasing((easing as Record<string, TweenEasing<unknown>>)[key]));
+
+  return calm as unknown as TweenEasing<T>;
+};
+
+/**
+ * The duration an animation should last under `mode`, or `null` when it
+ * should jump straight to its end value.
+ */
+export const motionDuration = (mode: MotionMode, duration: number): number | null => {
+  switch (mode) {
+    case 'full':
+      return duration;
+    case 'reduced':
+      return duration * REDUCED_DURATION_FACTOR;
+    case 'none':
+      return null;
+  }
+};
+
+/**
+ * The duration and easing a tween should use under `mode`, or `null` when it
+ * should jump straight to its end value.
+ */
+export function motionTiming(mode: MotionMode, duration: number, easing: EasingFunction): MotionTiming<EasingFunction> | null;
+export function motionTiming<T>(mode: MotionMode, duration: number, easing: TweenEasing<T>): MotionTiming<TweenEasing<T>> | null;
+export function motionTiming<T>(mode: MotionMode, duration: number, easing: TweenEasing<T>): MotionTiming<TweenEasing<T>> | null {
+  const adjusted = motionDuration(mode, duration);
+
+  if (adjusted === null) return null;
+
+  return {
+    duration: adjusted,
+    easing: mode === 'reduced' ? calmEasing(easing) : easing
+  };
+}
@@ -0,0 +1,71 @@
+import { Subject } from 'rxjs';
+import { easingFunctions } from '../configs/easing-functions';
+import { createManualClock } from '../frames/manual-clock';
+import { followTarget } from './follow-target';
+import { collect, linear } from '../testing/spec-helpers';
+
+const { easeInOutQuad } = easingFunctions;
+
+describe('followTarget', () => {
+  it('jumps to the first target unless a start value is given', () => {
+    const clock = createManualClock();
+    const target$ = new Subject<number>();
+    const values: number[] = [];
+
+    followTarget(target$, { duration: 20, easing: linear, frames: clock.frames }).subscribe(collect(values));
+    target$.next(5);
+    target$.next(15);
+    clock.tick(10);
+    clock.tick(10);
+
+    expect(values).toEqual([5, 5, 10, 15]);
+  });
+
+  it('keeps the velocity when the target changes mid-animation', () => {
+    const clock = createManualClock();
+    const target$ = new Subject<number>();
+    const values: number[] = [];
+
+    followTarget(target$, { duration: 100, easing: linear, from: 0, frames: clock.frames }).subscribe(collect(values));
+    target$.next(100);
+    for (let i = 0; i < 50; i++) clock.tick(1);
+    target$.next(0);
+    clock.tick(1);
+
+    const [before, at, , after] = values.slice(-4);
+
+    expect(at).toBe(50);
+    expect(at - before).toBeCloseTo(1);
+    expect(after - at).toBeCloseTo(1, 1);
+  });
+
+  it('keeps moving in the old direction with an easing that starts at rest', () => {
+    const clock = createManualClock();
+    const target$ = new Subject<number>();
+    const values: number[] = [];
+
+    followTarget(target$, { duration: 100, easing: easeInOutQuad, from: 0, frames: clock.frames }).subscribe(collect(values));
+    target$.next(100);
+    for (let i = 0; i < 50; i++) clock.tick(1);
+    target$.next(0);
+    clock.tick(1);
+
+    const [before, at, , after] = values.slice(-4);
+
+    expect(after - at).toBeCloseTo(at - before, 1);
+  });
+
+  it('settles exactly on the last target', () => {
+    const clock = createManualClock();
+    const target$ = new Subject<number>();
+    const values: number[] = [];
+
+    followTarget(target$, { duration: 100, easing: easeInOutQuad, from: 0, frames: clock.frames }).subscribe(collect(values));
+    target$.next(100);
+    for (let i = 0; i < 5; i++) clock.tick(10);
+    target$.next(-20);
+    for (let i = 0; i < 10; i++) clock.tick(10);
+
+    expect(values[values.length - 1]).toBe(-20);
+  });
+});
@@ -0,0 +1,84 @@
+import { defer, Observable, of } from 'rxjs';
+import { map, switchMap, tap } from 'rxjs/operators';
+import { FollowTargetOptions } from '../types/tween-options';
+import { easingVelocity } from '../easings/velocity';
+import { currentMotionMode, motionTiming } from '../motion/motion-policy';
+import { elapsedFrames } from './tween';
+
+interface Segment {
+  from: number;
+  to: number;
+  carry: number;
+}
+
+interface Motion {
+  value: number;
+  velocity: number;
+}
+
+/**
+ * Fades an initial velocity out over the duration: it starts at 0 with a
+ * slope of 1 and ends at 0 with a slope of 0 (the Hermite basis h10).
+ */
+const carryOffset = (elapsed: number, duration: number) => {
+  const s = elapsed / duration;
+  return duration * s * (1 - s) * (1 - s);
+};
+
+const carrySlope = (elapsed: number, duration: number) => {
+  const s = elapsed / duration;
+  return (1 - s) * (1 - 3 * s);
+};
+
+/**
+ * Tweens towards every value emitted by `target$`. A new target starts from
+ * the current value and keeps the current velocity, so interrupted motion
+ * continues without a kink. Targets that arrive at rest play the plain easing.
+ * The first target is jumped to unless `from` is given.
+ */
+export const followTarget = (
+  target$: Observable<number>,
+  { from, frames, motion, ...options }: FollowTargetOptions
+): Observable<number> =>
+  defer(() => {
+    const timing = motionTiming(motion ?? currentMotionMode(), options.duration, options.easing);
+
+    if (!timing) return target$;
+
+    const { duration, easing } = timing;
+    let segment: Segment | null = from === undefined ? null : { from: from, to: from, carry: 0 };
+    let elapsed = duration;
+
+    const motionAt = ({ from, to, carry }: Segment, time: number): Motion => time < duration
+      ? {
+        value: easing(time, from, to - from, duration) + carry * carryOffset(time, duration),
+        velocity: easingVelocity(easing, time, from, to - from, duration) + carry * carrySlope(time, duration)
+      }
+      : { value: to, velocity: 0 };
+
+    return target$.pipe(
+      switchMap(to => {
+        if (!segment) {
+          segment = { from: to, to: to, carry: 0 };
+          elapsed = duration;
+
+          return of(to);
+        }
+
+        const { value, velocity } = motionAt(segment, elapsed);
+        const next: Segment = {
+          from: value,
+          to: to,
+          carry: elapsed < duration ? velocity - easingVelocity(easing, 0, value, to - value, duration) : 0
+        };
+
+        segment = next;
+        elapsed = 0;
+
+        return elapsedFrames(duration, frames).pipe(
+          tap(time => elapsed = time),
+          map(time => motionAt(next, time).value)
+        );
+      })
+    );
+  });
@@ -0,0 +1,85 @@
+import { easingFunctions } from '../configs/easing-functions';
+import { createManualClock } from '../frames/manual-clock';
+import { keyframes } from './keyframes';
+import { collect } from '../testing/spec-helpers';
+
+describe('keyframes', () => {
+  it('runs every segment with its own easing over the total duration', () => {
+    const clock = createManualClock();
+    const values: number[] = [];
+    let completed = false;
+
+    keyframes([
+      { at: 0, value: 0 },
+      { at: .3, value: 80, easing: 'easeOutBack' },
+      { at: 1, value: 100, easing: 'easeInOutSine' }
+    ], { duration: 100, frames: clock.frames }).subscribe({ next: collect(values), complete: () => completed = true });
+
+    clock.tick(15);
+    clock.tick(15);
+    clock.tick(35);
+    clock.tick(35);
+
+    expect(values[0]).toBeCloseTo(0);
+    expect(values[1]).toBeCloseTo(easingFunctions.easeOutBack(15, 0, 80, 30));
+    expect(values[2]).toBeCloseTo(80);
+    expect(values[3]).toBeCloseTo(easingFunctions.easeInOutSine(35, 80, 20, 70));
+    expect(values[4]).toBe(100);
+    expect(completed).toBe(true);
+  });
+
+  it('accepts easing functions, css easings and structured values', () => {
+    const clock = createManualClock();
+    const values: { x: number, color: string }[] = [];
+
+    keyframes([
+      { at: 0, value: { x: 0, color: '#000' } },
+      { at: .5, value: { x: 10, color: '#fff' }, easing: easingFunctions.easeInQuad },
+      { at: 1, value: { x: 20, color: '#000' }, easing: 'steps(2)' }
+    ], { duration: 100, frames: clock.frames }).subscribe(collect(values));
+
+    clock.tick(25);
+    clock.tick(50);
+
+    expect(values[1]).toEqual({ x: 2.5, color: 'rgb(64, 64, 64)' });
+    expect(values[2]).toEqual({ x: 15, color: 'rgb(128, 128, 128)' });
+  });
+
+  it('holds values across keyframes at the same position', () => {
+    const clock = createManualClock();
+    const values: number[] = [];
+
+    keyframes([
+      { at: 0, value: 0 },
+      { at: .5, value: 10 },
+      { at: .5, value: 50 },
+      { at: 1, value: 100 }
+    ], { duration: 100, frames: clock.frames }).subscribe(collect(values));
+
+    clock.tick(49);
+    clock.tick(1);
+    clock.tick(25);
+
+    expect(values.slice(1)).toEqual([9.8, 50, 75]);
+  });
+
+  it('emits the end value right away for a duration of 0', () => {
+    const values: number[] = [];
+    let completed = false;
+
+    keyframes([{ at: 0, value: 0 }, { at: 1, value: 100 }], { duration: 0, frames: createManualClock().frames })
+      .subscribe({ next: collect(values), complete: () => completed = true });
+
+    expect(values).toEqual([100]);
+    expect(completed).toBe(true);
+  });
+
+  it('rejects invalid keyframes', () => {
+    expect(() => keyframes([{ at: 0, value: 0 }], { duration: 100 })).toThrow('at least two entries');
+    expect(() => keyframes([{ at: 0, value: 0 }, { at: .9, value: 1 }], { duration: 100 })).toThrow('start at 0 and end at 1');
+    expect(() => keyframes([{ at: 0, value: 0 }, { at: .6, value: 1 }, { at: .4, value: 1 }, { at: 1, value: 1 }], { duration: 100 }))
+      .toThrow('Keyframe 2 at 0.4 comes before the keyframe preceding it');
+    expect(() => keyframes([{ at: 0, value: 0 }, { at: 1, value: 1, easing: 'easeSideways' }], { duration: 100 }))
+      .toThrow('Invalid CSS easing "easeSideways"');
+  });
+});
@@ -0,0 +1,30 @@
+import { defer, Observable, of } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { Keyframe, KeyframesOptions } from '../types/keyframe';
+import { keyframeTrack } from '../interpolation/keyframe-track';
+import { currentMotionMode, motionDuration } from '../motion/motion-policy';
+import { elapsedFrames } from './tween';
+
+const keyframeValues = <T>(keyframes: readonly Keyframe<T>[], { duration, frames, colorSpace, motion }: KeyframesOptions): Observable<T> => {
+  const track = keyframeTrack(keyframes, colorSpace);
+
+  return defer(() => {
+    const mode = motion ?? currentMotionMode();
+    const adjusted = motionDuration(mode, duration);
+
+    if (adjusted === null) return of(track(1));
+
+    const played = mode === 'reduced' ? keyframeTrack(keyframes, colorSpace, true) : track;
+
+    return elapsedFrames(adjusted, frames).pipe(
+      map(elapsed => elapsed < adjusted ? played(elapsed / adjusted) : played(1))
+    );
+  });
+};
+
+export function keyframes(keyframes: readonly Keyframe<number>[], options: KeyframesOptions): Observable<number>;
+export function keyframes(keyframes: readonly Keyframe<string>[], options: KeyframesOptions): Observable<string>;
+export function keyframes<T extends object | []>(keyframes: readonly Keyframe<T>[], options: KeyframesOptions): Observable<T>;
+export function keyframes<T>(keyframes: readonly Keyframe<T>[], options: KeyframesOptions): Observable<T> {
+  return keyframeValues(keyframes, options);
+}
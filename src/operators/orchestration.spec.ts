@@ -0,0 +1,162 @@
+import { Observable } from 'rxjs';
+import { easingFunctions } from '../configs/easing-functions';
+import { createManualClock } from '../frames/manual-clock';
+import { setMotionMode } from '../motion/motion-policy';
+import { Timeline } from '../types/timeline';
+import { delay, parallel, play, sequence, stagger, timeline } from './orchestration';
+import { collect, linear } from '../testing/spec-helpers';
+
+const { easeInQuad } = easingFunctions;
+
+const linearTimeline = (name: string, duration: number, log: string[]): Timeline<number> =>
+  timeline({ from: 0, to: duration, duration: duration, easing: linear }, value => log.push(`${name}:${value}`));
+
+describe('orchestration', () => {
+  afterEach(() => setMotionMode(null));
+
+  it('runs a sequence step after step and emits the combined progress', () => {
+    const clock = createManualClock();
+    const log: string[] = [];
+    const progress: number[] = [];
+    let completed = false;
+
+    play(sequence([linearTimeline('a', 20, log), delay(10), linearTimeline('b', 20, log)]), clock.frames)
+      .subscribe({ next: collect(progress), complete: () => completed = true });
+
+    for (let i = 0; i < 5; i++) clock.tick(10);
+
+    expect(log).toEqual(['a:0', 'a:10', 'a:20', 'b:0', 'b:10', 'b:20']);
+    expect(progress).toEqual([0, .2, .4, .6, .8, 1]);
+    expect(completed).toBe(true);
+  });
+
+  it('keeps later steps on schedule when frames overshoot a step', () => {
+    const clock = createManualClock();
+    const log: string[] = [];
+
+    play(sequence([linearTimeline('a', 15, log), linearTimeline('b', 20, log)]), clock.frames).subscribe();
+
+    clock.tick(10);
+    clock.tick(10);
+    clock.tick(10);
+
+    expect(log).toEqual(['a:0', 'a:10', 'a:15', 'b:0', 'b:15']);
+  });
+
+  it('runs timelines in parallel on the same frames', () => {
+    const clock = createManualClock();
+    const log: string[] = [];
+    const progress: number[] = [];
+
+    play(parallel([linearTimeline('a', 20, log), linearTimeline('b', 40, log)]), clock.frames).subscribe(collect(progress));
+
+    clock.tick(20);
+    clock.tick(20);
+
+    expect(log).toEqual(['a:0', 'b:0', 'a:20', 'b:20', 'b:40']);
+    expect(progress).toEqual([0, .5, 1]);
+  });
+
+  it('staggers start times by the given delay', () => {
+    const clock = createManualClock();
+    const log: string[] = [];
+    const staggered = stagger([0, 1, 2].map(index => linearTimeline(`${index}`, 20, log)), 10);
+
+    expect(staggered.duration).toBe(40);
+
+    play(staggered, clock.frames).subscribe();
+
+    clock.tick(10);
+
+    expect(log).toEqual(['0:0', '0:10', '1:0']);
+  });
+
+  it('spreads the stagger delays with an easing', () => {
+    const clock = createManualClock();
+    const starts: number[] = [];
+    let now = 0;
+
+    const marker = (index: number): Timeline => ({
+      duration: 0,
+      run: () => new Observable(subscriber => {
+        starts[index] = now;
+        subscriber.complete();
+      })
+    });
+
+    play(stagger([0, 1, 2].map(marker), 30, easeInQuad), clock.frames).subscribe();
+
+    for (now = 5; now <= 60; now += 5) clock.tick(5);
+
+    expect(starts).toEqual([0, 15, 60]);
+  });
+
+  it('subscribes to the frame source once and cascades unsubscription', () => {
+    const clock = createManualClock();
+    let subscriptions = 0;
+    let active = 0;
+
+    const frames = new Observable<{ timestamp: number, elapsed: number }>(subscriber => {
+      subscriptions++;
+      active++;
+      const subscription = clock.frames.subscribe(subscriber);
+
+      return () => {
+        active--;
+        subscription.unsubscribe();
+      };
+    });
+
+    const subscription = play(parallel([
+      sequence([delay(10), timeline({ from: 0, to: 1, duration: 50, easing: easeInQuad })]),
+      timeline({ from: 0, to: 1, duration: 50, easing: easeInQuad })
+    ]), frames).subscribe();
+
+    clock.tick(20);
+
+    expect(subscriptions).toBe(1);
+    expect(active).toBe(1);
+
+    subscription.unsubscribe();
+
+    expect(active).toBe(0);
+  });
+
+  it('lines a sequence up with the shortened durations under reduced motion', () => {
+    setMotionMode('reduced');
+
+    const clock = createManualClock();
+    const log: string[] = [];
+    const progress: number[] = [];
+    let completed = false;
+
+    const steps = sequence([linearTimeline('a', 20, log), delay(20), linearTimeline('b', 20, log)]);
+
+    play(steps, clock.frames).subscribe({ next: collect(progress), complete: () => completed = true });
+
+    for (let i = 0; i < 3; i++) clock.tick(10);
+
+    expect(steps.duration).toBe(30);
+    expect(log).toEqual(['a:0', 'a:20', 'b:0', 'b:20']);
+    expect(progress).toEqual([0, 1 / 3, 2 / 3, 1]);
+    expect(completed).toBe(true);
+  });
+
+  it('finishes a staggered sequence at once without motion', () => {
+    setMotionMode('none');
+
+    const clock = createManualClock();
+    const log: string[] = [];
+    const progress: number[] = [];
+    let completed = false;
+
+    const steps = stagger([linearTimeline('a', 20, log), linearTimeline('b', 20, log)], 50);
+
+    play(steps, clock.frames).subscribe({ next: collect(progress), complete: () => completed = true });
+
+    expect(steps.duration).toBe(0);
+    expect(log).toEqual(['a:20', 'b:20']);
+    expect(progress).toEqual([1]);
+    expect(completed).toBe(true);
+  });
+});
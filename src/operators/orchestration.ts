@@ -0,0 +1,97 @@
+import { concat, defer, merge, Observable } from 'rxjs';
+import { ignoreElements, map, share, tap } from 'rxjs/operators';
+import { FrameSource } from '../types/animation-frame';
+import { EasingFunction } from '../types/easing-function';
+import { Timeline } from '../types/timeline';
+import { TweenOptions } from '../types/tween-options';
+import { currentMotionMode, motionDuration, motionTiming } from '../motion/motion-policy';
+import { defaultFrames } from '../frames/default-frames';
+import { linearEasing } from '../easings/normalized-easing';
+import { elapsedFrames, tweenValues } from './tween';
+
+const offsetFrames = (frames: FrameSource, offset: number): FrameSource =>
+  offset === 0 ? frames : frames.pipe(
+    map(frame => ({
+      timestamp: frame.timestamp,
+      elapsed: frame.elapsed - offset
+    }))
+  );
+
+/**
+ * Runs the children on one shared frame source while emitting the overall
+ * progress, and only completes once every child has completed.
+ */
+const orchestrate = (duration: number, children: (frames: FrameSource) => Observable<unknown>): Timeline<number> => ({
+  duration: duration,
+  run: frames => defer(() => {
+    const shared = frames.pipe(share());
+
+    return merge(
+      children(shared).pipe(ignoreElements()),
+      elapsedFrames(duration, shared).pipe(map(elapsed => duration === 0 ? 1 : elapsed / duration))
+    );
+  })
+});
+
+/**
+ * Wraps tween options as a timeline. `next` receives every tweened value.
+ * The motion policy is applied here, so that the timeline's duration is the
+ * one the tween actually runs for.
+ */
+export const timeline = <T>(options: TweenOptions<T>, next?: (value: T) => void): Timeline<T> => {
+  const timing = motionTiming(options.motion ?? currentMotionMode(), options.duration, options.easing);
+
+  return {
+    duration: timing ? timing.duration : 0,
+    run: frames => tweenValues({
+      ...options,
+      duration: timing ? timing.duration : options.duration,
+      easing: timing ? timing.easing : options.easing,
+      frames: frames,
+      motion: timing ? 'full' : 'none'
+    }).pipe(
+      tap(value => next?.(value))
+    )
+  };
+};
+
+export const delay = (duration: number): Timeline<never> => {
+  const adjusted = motionDuration(currentMotionMode(), duration) ?? 0;
+
+  return {
+    duration: adjusted,
+    run: frames => elapsedFrames(adjusted, frames).pipe(ignoreElements())
+  };
+};
+
+export const sequence = (timelines: Timeline[]): Timeline<number> => {
+  const offsets = timelines.reduce((acc, item, index) => [...acc, acc[index] + item.duration], [0]);
+
+  return orchestrate(
+    offsets[timelines.length],
+    frames => concat(...timelines.map((item, index) => defer(() => item.run(offsetFrames(frames, offsets[index])))))
+  );
+};
+
+export const parallel = (timelines: Timeline[]): Timeline<number> =>
+  orchestrate(
+    Math.max(0, ...timelines.map(item => item.duration)),
+    frames => merge(...timelines.map(item => item.run(frames)))
+  );
+
+/**
+ * Starts the timelines `delay` milliseconds apart. `easing` spreads the start
+ * times over the same total, e.g. to bunch them up towards the end.
+ */
+export const stagger = (timelines: Timeline[], delayBetween: number, easing: EasingFunction = linearEasing): Timeline<number> => {
+  const spread = delayBetween * (timelines.length - 1);
+
+  return parallel(timelines.map((item, index) => {
+    const offset = timelines.length > 1 ? easing(index, 0, spread, timelines.length - 1) : 0;
+
+    return sequence([delay(offset), item]);
+  }));
+};
+
+export const play = <T>(timeline: Timeline<T>, frames: FrameSource = defaultFrames()): Observable<T> =>
+  defer(() => timeline.run(frames.pipe(share())));
@@ -0,0 +1,196 @@
+import { Subject } from 'rxjs';
+import { TestScheduler } from 'rxjs/testing';
+import { easingFunctions } from '../configs/easing-functions';
+import { createManualClock } from '../frames/manual-clock';
+import { schedulerFrames } from '../frames/scheduler-frames';
+import { tween, tweenTo } from './tween';
+import { collect } from '../testing/spec-helpers';
+
+describe('tween', () => {
+  let testScheduler: TestScheduler;
+
+  beforeEach(() => {
+    testScheduler = new TestScheduler((actual, expected) => expect(actual).toEqual(expected));
+  });
+
+  Object.entries(easingFunctions).forEach(([name, easing]) => {
+    it(`runs ${name} from start to end value in one emission per frame`, () => {
+      const clock = createManualClock();
+      const values: number[] = [];
+      let completed = false;
+
+      tween({ from: 20, to: 120, duration: 160, easing: easing, frames: clock.frames })
+        .subscribe({ next: collect(values), complete: () => completed = true });
+
+      for (let frame = 0; frame < 10; frame++) {
+        clock.tick(16);
+      }
+
+      expect(values.length).toBe(11);
+      expect(values[0]).toBeCloseTo(20);
+      expect(values[values.length - 1]).toBe(120);
+      expect(completed).toBe(true);
+    });
+  });
+
+  it('emits eased values on every frame of the scheduler', () => {
+    testScheduler.run(({ expectObservable }) => {
+      const easing = easingFunctions.easeInQuad;
+      const frames = schedulerFrames(4, testScheduler);
+
+      expectObservable(tween({ from: 0, to: 100, duration: 10, easing: easing, frames: frames })).toBe('a---b---c---(d|)', {
+        a: 0,
+        b: easing(4, 0, 100, 10),
+        c: easing(8, 0, 100, 10),
+        d: 100
+      });
+    });
+  });
+
+  it('emits the end value when the first frame is already past the duration', () => {
+    const clock = createManualClock();
+    const values: number[] = [];
+
+    tween({ from: 0, to: 1, duration: 16, easing: easingFunctions.easeOutBounce, frames: clock.frames })
+      .subscribe(collect(values));
+
+    clock.tick(100);
+
+    expect(values).toEqual([0, 1]);
+  });
+});
+
+describe('tween with structures', () => {
+  const { easeInQuad, easeOutQuad } = easingFunctions;
+
+  it('interpolates every property of an object', () => {
+    const clock = createManualClock();
+    const values: { x: number, y: number }[] = [];
+
+    tween({ from: { x: 0, y: 0 }, to: { x: 100, y: 50 }, duration: 32, easing: easeInQuad, frames: clock.frames })
+      .subscribe(collect(values));
+
+    clock.tick(16);
+    clock.tick(16);
+
+    expect(values).toEqual([{ x: 0, y: 0 }, { x: 25, y: 12.5 }, { x: 100, y: 50 }]);
+  });
+
+  it('interpolates tuples and nested structures with an easing per key', () => {
+    const clock = createManualClock();
+    const values: { position: number[], opacity: number }[] = [];
+
+    tween({
+      from: { position: [0, 0], opacity: 0 },
+      to: { position: [100, -100], opacity: 1 },
+      duration: 32,
+      easing: { position: [easeInQuad, easeOutQuad], opacity: easeOutQuad },
+      frames: clock.frames
+    }).subscribe(collect(values));
+
+    clock.tick(16);
+
+    expect(values[1]).toEqual({ position: [25, -75], opacity: .75 });
+  });
+
+  it('rejects mismatching structures at runtime', () => {
+    const from: { x: number, y: number } = { x: 0, y: 0 };
+
+    expect(() => tween({ from: from, to: { x: 1, y: { z: 1 } } as unknown as typeof from, duration: 16, easing: easeInQuad }))
+      .toThrow('Cannot tween "y" from a number to a structure');
+  });
+
+  it('rejects mismatching structures at compile time', () => {
+    const from: { x: number, y: number } = { x: 0, y: 0 };
+
+    const invalidTweens = () => [
+      // @ts-expect-error
+      tween({ from: from, to: { x: 1 }, duration: 16, easing: easeInQuad }),
+      // @ts-expect-error
+      tween({ from: [0, 0], to: [1, 1, 1], duration: 16, easing: easeInQuad }),
+      // @ts-expect-error
+      tween({ from: from, to: from, duration: 16, easing: { x: easeInQuad } }),
+      // @ts-expect-error
+      tween({ from: { visible: false }, to: { visible: true }, duration: 16, easing: easeInQuad })
+    ];
+
+    expect(invalidTweens).toThrow();
+  });
+});
+
+describe('tween with colors', () => {
+  it('mixes css colors and emits css colors', () => {
+    const clock = createManualClock();
+    const values: string[] = [];
+
+    tween({ from: '#000', to: '#f00', duration: 32, easing: easingFunctions.easeInQuad, frames: clock.frames })
+      .subscribe(collect(values));
+
+    clock.tick(16);
+    clock.tick(16);
+
+    expect(values).toEqual(['rgb(0, 0, 0)', 'rgb(64, 0, 0)', 'rgb(255, 0, 0)']);
+    expect(values[values.length - 1]).toBe('rgb(255, 0, 0)');
+  });
+
+  it('mixes in the given color space', () => {
+    const clock = createManualClock();
+    const values: { fill: string, stroke: string }[] = [];
+
+    tween({
+      from: { fill: 'hsl(350, 100%, 50%)', stroke: '#0000ff' },
+      to: { fill: 'hsl(10, 100%, 50%)', stroke: '#ffff00' },
+      duration: 32,
+      easing: easingFunctions.easeInOutSine,
+      colorSpace: 'hsl',
+      frames: clock.frames
+    }).subscribe(collect(values));
+
+    clock.tick(16);
+
+    expect(values[1].fill).toBe('rgb(255, 0, 0)');
+  });
+
+  it('rejects invalid colors when created', () => {
+    expect(() => tween({ from: '#12', to: '#fff', duration: 16, easing: easingFunctions.easeInQuad }))
+      .toThrow('Invalid CSS color "#12"');
+  });
+});
+
+describe('tweenTo', () => {
+  it('tweens to each target starting from the value reached so far', () => {
+    const clock = createManualClock();
+    const target$ = new Subject<number>();
+    const values: number[] = [];
+    let completed = false;
+
+    target$.pipe(
+      tweenTo({ from: 0, duration: 32, easing: easingFunctions.easeInOutSine, frames: clock.frames })
+    ).subscribe({ next: collect(values), complete: () => completed = true });
+
+    target$.next(100);
+    clock.tick(16);
+    target$.next(0);
+    clock.tick(16);
+    clock.tick(16);
+    target$.complete();
+
+    expect(values.map(Math.round)).toEqual([0, 50, 50, 25, 0]);
+    expect(completed).toBe(true);
+  });
+
+  it('tweens structures towards each target', () => {
+    const clock = createManualClock();
+    const target$ = new Subject<{ x: number, y: number }>();
+    const values: { x: number, y: number }[] = [];
+
+    target$.pipe(
+      tweenTo({ from: { x: 0, y: 0 }, duration: 32, easing: easingFunctions.easeInOutSine, frames: clock.frames })
+    ).subscribe(collect(values));
+
+    target$.next({ x: 100, y: 10 });
+    clock.tick(16);
+
+    expect(values.map(({ x, y }) => [Math.round(x), Math.round(y)])).toEqual([[0, 0], [50, 5]]);
+  });
+});
@@ -0,0 +1,65 @@
+import { defer, Observable, of, OperatorFunction } from 'rxjs';
+import { endWith, map, startWith, switchMap, takeWhile, tap } from 'rxjs/operators';
+import { FrameSource } from '../types/animation-frame';
+import { TweenOptions, TweenToOptions } from '../types/tween-options';
+import { NoInfer, TweenShape } from '../types/tweenable';
+import { assertSameShape, formatValue, interpolate } from '../interpolation/interpolate';
+import { currentMotionMode, motionTiming } from '../motion/motion-policy';
+import { defaultFrames } from '../frames/default-frames';
+
+/**
+ * Emits the elapsed milliseconds on every frame of `frames`, starting with 0
+ * and ending with exactly `duration`.
+ */
+export const elapsedFrames = (duration: number, frames: FrameSource = defaultFrames()): Observable<number> =>
+  frames.pipe(
+    map(frame => frame.elapsed),
+    startWith(0),
+    takeWhile(elapsed => elapsed < duration),
+    endWith(duration)
+  );
+
+/**
+ * The implementation behind `tween`, for callers that already hold a
+ * `TweenOptions<T>` and do not need its overloads.
+ */
+export const tweenValues = <T>({ from, to, duration, easing, frames, colorSpace, motion }: TweenOptions<T>): Observable<T> => {
+  assertSameShape(from, to, easing);
+
+  const end = formatValue(to);
+
+  return defer(() => {
+    const timing = motionTiming(motion ?? currentMotionMode(), duration, easing);
+
+    if (!timing) return of(end);
+
+    return elapsedFrames(timing.duration, frames).pipe(
+      map(elapsed => elapsed < timing.duration ? interpolate(from, to, timing.easing, elapsed, timing.duration, colorSpace) : end)
+    );
+  });
+};
+
+export function tween(options: TweenOptions<number>): Observable<number>;
+export function tween(options: TweenOptions<string>): Observable<string>;
+export function tween<T extends object | []>(options: TweenOptions<T> & { from: TweenShape<NoInfer<T>> }): Observable<T>;
+export function tween<T>(options: TweenOptions<T>): Observable<T> {
+  return tweenValues(options);
+}
+
+/**
+ * Tweens towards every value emitted by the source, starting from the value
+ * reached so far. A new target interrupts the running tween.
+ */
+export function tweenTo(options: TweenToOptions<number>): OperatorFunction<number, number>;
+export function tweenTo(options: TweenToOptions<string>): OperatorFunction<string, string>;
+export function tweenTo<T extends object | []>(options: TweenToOptions<T> & { from: TweenShape<NoInfer<T>> }): OperatorFunction<T, T>;
+export function tweenTo<T>({ from, duration, easing, frames, colorSpace, motion }: TweenToOptions<T>): OperatorFunction<T, T> {
+  return source => defer(() => {
+    let current = from;
+
+    return source.pipe(
+      switchMap(to => tweenValues({ from: current, to: to, duration: duration, easing: easing, frames: frames, colorSpace: colorSpace, motion: motion })),
+      tap(value => current = value)
+    );
+  });
+}
@@ -0,0 +1,159 @@
+import { easingFunctions } from '../configs/easing-functions';
+import { createManualClock } from '../frames/manual-clock';
+import { setMotionMode } from '../motion/motion-policy';
+import { PlaybackState } from '../types/playback';
+import { controlTween, createPlaybackController } from './playback-controller';
+import { collect, linear } from '../testing/spec-helpers';
+
+describe('createPlaybackController', () => {
+  it('only advances while playing and finishes at the end', () => {
+    const clock = createManualClock();
+    const controller = createPlaybackController(100, progress => progress * 2, clock.frames);
+    const values: number[] = [];
+    const states: PlaybackState[] = [];
+
+    controller.value$.subscribe(collect(values));
+    controller.state$.subscribe(collect(states));
+
+    clock.tick(25);
+    controller.play();
+    clock.tick(25);
+    controller.pause();
+    clock.tick(25);
+    controller.play();
+    clock.tick(50);
+    clock.tick(50);
+    clock.tick(50);
+
+    expect(values).toEqual([0, .5, 1.5, 2]);
+    expect(states).toEqual(['idle', 'playing', 'paused', 'playing', 'finished']);
+  });
+
+  it('seeks, reverses and scales time by the rate', () => {
+    const clock = createManualClock();
+    const controller = createPlaybackController(100, progress => progress, clock.frames);
+    const progress: number[] = [];
+
+    controller.progress$.subscribe(collect(progress));
+    controller.seek(.5);
+    controller.setRate(2);
+    controller.reverse();
+    controller.play();
+    clock.tick(10);
+    clock.tick(10);
+    clock.tick(10);
+
+    expect(progress.map(value => Math.round(value * 100) / 100)).toEqual([0, .5, .3, .1, 0]);
+  });
+
+  it('reverses without changing whether it plays', () => {
+    const clock = createManualClock();
+    const controller = createPlaybackController(100, progress => progress, clock.frames);
+    const progress: number[] = [];
+    const states: PlaybackState[] = [];
+
+    controller.progress$.subscribe(collect(progress));
+    controller.state$.subscribe(collect(states));
+    controller.play();
+    clock.tick(50);
+    controller.pause();
+    controller.reverse();
+    clock.tick(10);
+    controller.play();
+    clock.tick(20);
+    controller.reverse();
+    clock.tick(10);
+
+    expect(progress).toEqual([0, .5, .3, .4]);
+    expect(states).toEqual(['idle', 'playing', 'paused', 'playing']);
+  });
+
+  it('restarts from the beginning when played after finishing', () => {
+    const clock = createManualClock();
+    const controller = createPlaybackController(10, progress => progress, clock.frames);
+    const progress: number[] = [];
+
+    controller.progress$.subscribe(collect(progress));
+    controller.seek(2);
+    controller.play();
+    clock.tick(5);
+
+    expect(progress).toEqual([0, 1, 0, .5]);
+  });
+
+  it('rejects rates that are not positive', () => {
+    const controller = createPlaybackController(10, progress => progress);
+
+    expect(() => controller.setRate(0)).toThrow('Playback rate needs to be a positive number, got 0');
+    expect(() => controller.setRate(NaN)).toThrow();
+  });
+
+  it('stops requesting frames once destroyed', () => {
+    const clock = createManualClock();
+    const controller = createPlaybackController(100, progress => progress, clock.frames);
+    const progress: number[] = [];
+    let completed = false;
+
+    controller.progress$.subscribe({ next: collect(progress), complete: () => completed = true });
+    controller.play();
+    controller.destroy();
+    clock.tick(10);
+
+    expect(progress).toEqual([0]);
+    expect(completed).toBe(true);
+  });
+});
+
+describe('controlTween', () => {
+  it('samples the tween at the scrubbed position', () => {
+    const controller = controlTween({ from: { x: 0, y: 10 }, to: { x: 100, y: 20 }, duration: 100, easing: linear });
+    const values: { x: number, y: number }[] = [];
+
+    controller.value$.subscribe(collect(values));
+    controller.seek(.25);
+    controller.seek(1);
+
+    expect(values).toEqual([{ x: 0, y: 10 }, { x: 25, y: 12.5 }, { x: 100, y: 20 }]);
+  });
+
+  it('rejects mismatched from and to when it is created', () => {
+    expect(() => controlTween({ from: { x: 0 }, to: { y: 1 } as unknown as { x: number }, duration: 100, easing: linear }))
+      .toThrow('Cannot tween the root between [x] and [y]');
+  });
+
+  describe('with the motion policy', () => {
+    afterEach(() => setMotionMode(null));
+
+    it('plays a shortened, calm curve under reduced motion', () => {
+      setMotionMode('reduced');
+
+      const clock = createManualClock();
+      const controller = controlTween({ from: 0, to: 100, duration: 100, easing: easingFunctions.easeOutBack, frames: clock.frames });
+      const values: number[] = [];
+      const states: PlaybackState[] = [];
+
+      controller.value$.subscribe(collect(values));
+      controller.state$.subscribe(collect(states));
+      controller.play();
+
+      for (let i = 0; i < 5; i++) clock.tick(10);
+
+      expect(states).toEqual(['idle', 'playing', 'finished']);
+      expect(values.length).toBe(6);
+      expect(values.every(value => value >= 0 && value <= 100)).toBe(true);
+      expect(values[values.length - 1]).toBe(100);
+    });
+
+    it('jumps to the end without motion', () => {
+      const clock = createManualClock();
+      const controller = controlTween({ from: 0, to: 100, duration: 100, easing: linear, frames: clock.frames, motion: 'none' });
+      const values: number[] = [];
+
+      controller.value$.subscribe(collect(values));
+      controller.play();
+      clock.tick(10);
+
+      expect(values).toEqual([100, 100]);
+    });
+  });
+});
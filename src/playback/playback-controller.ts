@@ -0,0 +1,122 @@
+import { BehaviorSubject, Subscription } from 'rxjs';
+import { distinctUntilChanged, map, pairwise, startWith } from 'rxjs/operators';
+import { FrameSource } from '../types/animation-frame';
+import { PlaybackController, PlaybackDirection, PlaybackState } from '../types/playback';
+import { TweenOptions } from '../types/tween-options';
+import { assertSameShape, formatValue, interpolate } from '../interpolation/interpolate';
+import { currentMotionMode, motionTiming } from '../motion/motion-policy';
+import { defaultFrames } from '../frames/default-frames';
+
+const clamp = (progress: number) => Math.min(1, Math.max(0, progress));
+
+/**
+ * Drives `sample` by a progress that can be played, paused, scrubbed and
+ * reversed. Frames are only requested while playing.
+ */
+export const createPlaybackController = <T>(
+  duration: number,
+  sample: (progress: number) => T,
+  frames: FrameSource = defaultFrames()
+): PlaybackController<T> => {
+  const progress = new BehaviorSubject(0);
+  const state = new BehaviorSubject<PlaybackState>('idle');
+  let direction: PlaybackDirection = 'forward';
+  let rate = 1;
+  let loop: Subscription | null = null;
+
+  const stop = () => {
+    loop?.unsubscribe();
+    loop = null;
+  };
+
+  const end = () => direction === 'forward' ? 1 : 0;
+
+  const advance = (elapsed: number) => {
+    const step = duration > 0 ? elapsed * rate / duration : 1;
+    const next = clamp(progress.value + (direction === 'forward' ? step : -step));
+
+    progress.next(next);
+
+    if (next === end()) {
+      stop();
+      state.next('finished');
+    }
+  };
+
+  const play = () => {
+    if (loop) return;
+
+    if (progress.value === end()) {
+      progress.next(1 - end());
+    }
+
+    state.next('playing');
+    loop = frames.pipe(
+      map(frame => frame.elapsed),
+      startWith(0),
+      pairwise(),
+      map(([previous, current]) => current - previous)
+    ).subscribe(advance);
+  };
+
+  const pause = () => {
+    stop();
+
+    if (state.value === 'playing') state.next('paused');
+  };
+
+  const seek = (target: number) => {
+    progress.next(clamp(target));
+
+    if (state.value === 'finished' || state.value === 'idle') state.next('paused');
+  };
+
+  const reverse = () => {
+    direction = direction === 'forward' ? 'backward' : 'forward';
+  };
+
+  const setRate = (value: number) => {
+    if (!(value > 0) || !isFinite(value)) {
+      throw new Error(`Playback rate needs to be a positive number, got ${value}`);
+    }
+
+    rate = value;
+  };
+
+  const destroy = () => {
+    stop();
+    progress.complete();
+    state.complete();
+  };
+
+  return {
+    value$: progress.pipe(map(sample)),
+    progress$: progress.asObservable(),
+    state$: state.pipe(distinctUntilChanged()),
+    play: play,
+    pause: pause,
+    seek: seek,
+    reverse: reverse,
+    setRate: setRate,
+    destroy: destroy
+  };
+};
+
+/**
+ * A playback controller over a tween. The motion policy in effect when it is
+ * created shortens and calms the tween, or makes it jump to the end.
+ */
+export const controlTween = <T>({ from, to, duration, easing, frames, colorSpace, motion }: TweenOptions<T>): PlaybackController<T> => {
+  assertSameShape(from, to, easing);
+
+  const end = formatValue(to);
+  const timing = motionTiming(motion ?? currentMotionMode(), duration, easing);
+
+  if (!timing) return createPlaybackController(0, () => end, frames);
+
+  return createPlaybackController(
+    timing.duration,
+    progress => progress < 1 ? interpolate(from, to, timing.easing, progress * timing.duration, timing.duration, colorSpace) : end,
+    frames
+  );
+};
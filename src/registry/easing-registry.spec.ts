@@ -0,0 +1,92 @@
+import { easingFunctions } from '../configs/easing-functions';
+import { easingRegistry } from '../configs/easing-registry';
+import { resolveEasing } from '../easings/resolve-easing';
+import { spring } from '../easings/spring';
+import { createEasingRegistry } from './easing-registry';
+import { linear } from '../testing/spec-helpers';
+
+describe('createEasingRegistry', () => {
+  it('registers easings with their metadata and looks them up by alias', () => {
+    const registry = createEasingRegistry()
+      .register('slide', { easing: linear, family: 'custom', direction: 'inOut', overshoots: false, aliases: ['glide'] });
+
+    expect(registry.get('slide')).toEqual({
+      name: 'slide',
+      easing: linear,
+      family: 'custom',
+      direction: 'inOut',
+      overshoots: false,
+      parameters: {},
+      aliases: ['glide']
+    });
+    expect(registry.lookup('glide')?.name).toBe('slide');
+    expect(registry.lookup('unknown')).toBeUndefined();
+  });
+
+  it('types names as a union of the registered ones', () => {
+    const registry = createEasingRegistry({ a: { easing: linear, family: 'custom', direction: 'in', overshoots: false } });
+    const typeCheck = () => {
+      // @ts-expect-error 'b' has not been registered
+      registry.get('b');
+    };
+
+    expect(registry.get('a').name).toBe('a');
+    expect(typeCheck).toThrow('Unknown easing "b"');
+  });
+
+  it('refuses names and aliases that are taken', () => {
+    const registry = createEasingRegistry({ a: { easing: linear, family: 'custom', direction: 'in', overshoots: false, aliases: ['b'] } });
+
+    expect(() => registry.register('b', { easing: linear, family: 'custom', direction: 'in', overshoots: false }))
+      .toThrow('Cannot register easing "b", "b" is already taken');
+    expect(() => registry.register('c', { easing: linear, family: 'custom', direction: 'in', overshoots: false, aliases: ['a'] }))
+      .toThrow('Cannot register easing "c", "a" is already taken');
+  });
+
+  it('filters entries by family, direction and overshoot', () => {
+    const registry = createEasingRegistry({
+      a: { easing: linear, family: 'x', direction: 'in', overshoots: false },
+      b: { easing: linear, family: 'x', direction: 'out', overshoots: true },
+      c: { easing: linear, family: 'y', direction: 'out', overshoots: false }
+    });
+
+    expect(registry.entries({ family: 'x' }).map(entry => entry.name)).toEqual(['a', 'b']);
+    expect(registry.entries({ direction: 'out', overshoots: false }).map(entry => entry.name)).toEqual(['c']);
+  });
+});
+
+describe('easingRegistry', () => {
+  it('describes every built-in easing', () => {
+    expect(easingRegistry.get('easeInOutQuad')).toEqual(expect.objectContaining({
+      family: 'quad',
+      direction: 'inOut',
+      overshoots: false,
+      parameters: { exponent: 2 },
+      aliases: ['ease-in-out-quad']
+    }));
+    expect(easingRegistry.get('easeOutBack').overshoots).toBe(true);
+    expect(easingRegistry.get('ease-in').family).toBe('css');
+    expect(easingRegistry.entries({ family: 'elastic' })).toHaveLength(3);
+  });
+
+  it('resolves aliases by name', () => {
+    expect(resolveEasing('ease-out-cubic')).toBe(easingFunctions.easeOutCubic);
+  });
+
+  it('resolves easings registered at runtime by name', () => {
+    const springy = spring({ stiffness: 300 });
+
+    // A separate copy of the modules keeps the registration out of the
+    // registry other specs use.
+    jest.isolateModules(() => {
+      const isolated: typeof import('../configs/easing-registry') = require('../configs/easing-registry');
+      const { resolveEasing: isolatedResolveEasing }: typeof import('../easings/resolve-easing') = require('../easings/resolve-easing');
+
+      isolated.easingRegistry.register('springy', { easing: springy, family: 'spring', direction: 'out', overshoots: true });
+
+      expect(isolatedResolveEasing('springy')).toBe(springy);
+    });
+
+    expect(easingRegistry.lookup('springy')).toBeUndefined();
+  });
+});
@@ -0,0 +1,45 @@
+import { EasingDefinition, EasingEntry, EasingRegistry } from '../types/easing-registry';
+
+export const createEasingRegistry = <N extends string = never>(
+  definitions: Record<N, EasingDefinition> = {} as Record<N, EasingDefinition>
+): EasingRegistry<N> => {
+  // The maps also hold entries registered later under names beyond `N`, but
+  // those are only read back through the registry typed with their names.
+  const entries = new Map<string, EasingEntry>();
+  const aliases = new Map<string, EasingEntry>();
+
+  const lookup = (nameOrAlias: string) => (entries.get(nameOrAlias) ?? aliases.get(nameOrAlias)) as EasingEntry<N> | undefined;
+
+  const registry: EasingRegistry<N> = {
+    register: <M extends string>(name: M, { parameters = {}, aliases: names = [], ...definition }: EasingDefinition) => {
+      const taken = [name, ...names].find(key => lookup(key));
+
+      if (taken !== undefined) {
+        throw new Error(`Cannot register easing "${name}", "${taken}" is already taken`);
+      }
+
+      const entry: EasingEntry<N | M> = { ...definition, name: name, parameters: parameters, aliases: names };
+
+      entries.set(name, entry);
+      names.forEach(alias => aliases.set(alias, entry));
+
+      return registry as EasingRegistry<N | M>;
+    },
+    get: name => {
+      const entry = entries.get(name) as EasingEntry<N> | undefined;
+
+      if (!entry) throw new Error(`Unknown easing "${name}"`);
+
+      return entry;
+    },
+    lookup: lookup,
+    entries: (criteria = {}) => (Array.from(entries.values()) as EasingEntry<N>[]).filter(entry =>
+      (criteria.family === undefined || entry.family === criteria.family) &&
+      (criteria.direction === undefined || entry.direction === criteria.direction) &&
+      (criteria.overshoots === undefined || entry.overshoots === criteria.overshoots))
+  };
+
+  (Object.keys(definitions) as N[]).forEach(name => registry.register(name, definitions[name]));
+
+  return registry;
+};
@@ -0,0 +1,6 @@
+import { linearEasing } from '../easings/normalized-easing';
+
+/** Pushes every value it is called with onto `values`, e.g. as an observer. */
+export const collect = <T>(values: T[]) => (value: T) => values.push(value);
+
+export const linear = linearEasing;
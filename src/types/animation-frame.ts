@@ -0,0 +1,8 @@
+import { Observable } from 'rxjs';
+
+export interface AnimationFrame {
+  timestamp: number;
+  elapsed: number;
+}
+
+export type FrameSource = Observable<AnimationFrame>;
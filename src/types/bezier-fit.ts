@@ -0,0 +1,38 @@
+import { EasingFunction } from './easing-function';
+
+export interface BezierPoints {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface FitError {
+  /** Largest vertical distance to the original curve, as a fraction of the whole distance. */
+  maxError: number;
+  rmsError: number;
+}
+
+export interface BezierFit extends BezierPoints, FitError {
+  easing: EasingFunction;
+  css: string;
+}
+
+export interface BezierSegment extends BezierPoints {
+  /** Progress range the segment covers. */
+  from: number;
+  to: number;
+  /** Eased values at both ends of the segment. */
+  start: number;
+  end: number;
+}
+
+export interface PiecewiseBezierFit extends FitError {
+  segments: BezierSegment[];
+  easing: EasingFunction;
+}
+
+export interface PiecewiseBezierOptions {
+  tolerance?: number;
+  maxSegments?: number;
+}
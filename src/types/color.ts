@@ -0,0 +1,11 @@
+export type ColorSpace = 'srgb' | 'linear-rgb' | 'hsl' | 'oklab';
+
+/**
+ * An sRGB color with every channel, including alpha, between 0 and 1.
+ */
+export interface Color {
+  r: number;
+  g: number;
+  b: number;
+  alpha: number;
+}
@@ -0,0 +1,19 @@
+export type CurveSampling =
+  | { points: number }
+  | { frameRate: number; duration: number };
+
+export interface CssLinearOptions {
+  /** The largest vertical distance a dropped point may have from the reduced curve. */
+  tolerance?: number;
+  /** How densely the curve is sampled before it is reduced. */
+  points?: number;
+}
+
+/**
+ * A Web Animations API keyframe, declared here so that the library's typings
+ * do not need the DOM ones.
+ */
+export interface CurveKeyframe {
+  offset?: number | null;
+  [property: string]: string | number | null | undefined;
+}
@@ -0,0 +1,46 @@
+import { FrameSource } from './animation-frame';
+import { EasingFunction } from './easing-function';
+
+/** A number, or a number with a unit such as `'10px'` or `'45deg'`. */
+export type CssValue = number | string;
+
+export interface BindingOptions<T = CssValue> {
+  from: T;
+  to: T;
+  duration: number;
+  /** An `EasingFunction`, a name from `easingFunctions` or a CSS easing. */
+  easing: string | EasingFunction;
+  frames?: FrameSource;
+  /** Puts the initial value back once the binding completes or is unsubscribed. */
+  restore?: boolean;
+}
+
+export type ScrollAxis = 'x' | 'y';
+
+export interface ScrollBindingOptions extends Omit<BindingOptions<number>, 'from'> {
+  /** Defaults to the current scroll position. */
+  from?: number;
+  axis?: ScrollAxis;
+}
+
+export interface Scrollable {
+  scrollTop: number;
+  scrollLeft: number;
+}
+
+/**
+ * The parts of an element the bindings touch, declared here so that the
+ * library's typings do not need the DOM ones.
+ */
+export interface Styleable {
+  style: {
+    getPropertyValue: (property: string) => string;
+    setProperty: (property: string, value: string) => void;
+  };
+}
+
+export interface Attributable {
+  getAttribute: (name: string) => string | null;
+  setAttribute: (name: string, value: string) => void;
+  removeAttribute: (name: string) => void;
+}
@@ -0,0 +1,27 @@
+export interface EasingSample {
+  progress: number;
+  value: number;
+}
+
+export interface EasingAnalysisOptions {
+  samples?: number;
+}
+
+export interface EasingAnalysis {
+  /** The eased value at evenly spaced progress points, including 0 and 1. */
+  curve: EasingSample[];
+  /** Change of the eased value per unit of progress. */
+  velocity: EasingSample[];
+  /** Change of the velocity per unit of progress. */
+  acceleration: EasingSample[];
+  /** How far the curve rises above 1, or 0. */
+  overshoot: number;
+  /** How far the curve dips below 0, or 0. */
+  undershoot: number;
+  maxVelocity: number;
+  maxVelocityAt: number;
+  /** Progress points at which the curve jumps instead of moving continuously. */
+  discontinuities: number[];
+  /** Distance to 1 just before the end, for curves that snap to their target. */
+  settleError: number;
+}
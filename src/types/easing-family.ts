@@ -0,0 +1,7 @@
+import { EasingFunction } from './easing-function';
+
+export interface EasingFamily {
+  in: EasingFunction;
+  out: EasingFunction;
+  inOut: EasingFunction;
+}
@@ -0,0 +1,40 @@
+import { EasingFunction } from './easing-function';
+
+export type EasingDirection = 'in' | 'out' | 'inOut';
+
+export interface EasingMetadata {
+  family: string;
+  direction: EasingDirection;
+  /** Whether the curve leaves the range between 0 and 1 on the way. */
+  overshoots: boolean;
+  /** The parameters the easing was built with, e.g. `{ exponent: 2 }` for a quad. */
+  parameters: Readonly<Record<string, number>>;
+  /** Other names it can be looked up by, such as CSS-style `'ease-in-quad'`. */
+  aliases: readonly string[];
+}
+
+export interface EasingDefinition extends Partial<Omit<EasingMetadata, 'family' | 'direction' | 'overshoots'>> {
+  easing: EasingFunction;
+  family: string;
+  direction: EasingDirection;
+  overshoots: boolean;
+}
+
+export interface EasingEntry<N extends string = string> extends EasingMetadata {
+  name: N;
+  easing: EasingFunction;
+}
+
+export type EasingCriteria = Partial<Pick<EasingMetadata, 'family' | 'direction' | 'overshoots'>>;
+
+export interface EasingRegistry<N extends string> {
+  /**
+   * Adds an easing and returns the registry typed with its name as well. The
+   * name and aliases must not be taken yet.
+   */
+  register: <M extends string>(name: M, definition: EasingDefinition) => EasingRegistry<N | M>;
+  get: (name: N) => EasingEntry<N>;
+  /** Finds an entry by its name or one of its aliases. */
+  lookup: (nameOrAlias: string) => EasingEntry<N> | undefined;
+  entries: (criteria?: EasingCriteria) => EasingEntry<N>[];
+}
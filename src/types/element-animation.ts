@@ -0,0 +1,41 @@
+import { FrameSource } from './animation-frame';
+import { EasingFunction } from './easing-function';
+import { MotionMode } from './motion';
+
+/**
+ * A Web Animations API keyframe, declared here so that the library's typings
+ * do not need the DOM ones.
+ */
+export interface ElementKeyframe {
+  offset?: number | null;
+  easing?: string;
+  [property: string]: string | number | null | undefined;
+}
+
+export type ElementFillMode = 'none' | 'forwards' | 'backwards' | 'both' | 'auto';
+
+export interface ElementAnimation {
+  currentTime: number | null;
+  finished: Promise<unknown>;
+  cancel: () => void;
+}
+
+/**
+ * The part of an `Element` that `animateElement` needs. Without `animate`,
+ * as outside a browser, the animation jumps to its end.
+ */
+export interface Animatable {
+  animate?(keyframes: ElementKeyframe[], options: { duration: number; easing: string; fill: ElementFillMode }): ElementAnimation;
+}
+
+export interface ElementAnimationOptions {
+  from: ElementKeyframe;
+  to: ElementKeyframe;
+  duration: number;
+  easing: string | EasingFunction;
+  fill?: ElementFillMode;
+  /** Frames at which the progress of the animation is read. */
+  frames?: FrameSource;
+  /** Overrides the global motion mode for this animation. */
+  motion?: MotionMode;
+}
@@ -0,0 +1,15 @@
+export interface FrameReport {
+  frameCount: number;
+  meanFrameInterval: number;
+  maxFrameInterval: number;
+  droppedFrames: number;
+  /** Largest distance between the effective and the optimal curve, as a fraction of the whole distance. */
+  maxDeviation: number;
+  /** Root mean square distance between the effective and the optimal curve, sampled every millisecond. */
+  rmsDeviation: number;
+}
+
+export interface FrameReportOptions {
+  /** The interval a frame is expected to take, 60 fps by default. */
+  frameInterval?: number;
+}
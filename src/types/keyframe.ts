@@ -0,0 +1,22 @@
+import { FrameSource } from './animation-frame';
+import { ColorSpace } from './color';
+import { EasingFunction } from './easing-function';
+import { MotionMode } from './motion';
+import { TweenEasing } from './tweenable';
+
+/**
+ * `at` is the position within the whole duration, between 0 and 1. `easing`
+ * applies to the segment that ends at this keyframe and defaults to linear.
+ */
+export interface Keyframe<T = number> {
+  at: number;
+  value: T;
+  easing?: string | EasingFunction | TweenEasing<T>;
+}
+
+export interface KeyframesOptions {
+  duration: number;
+  frames?: FrameSource;
+  colorSpace?: ColorSpace;
+  motion?: MotionMode;
+}
@@ -0,0 +1,10 @@
+/**
+ * `full` plays tweens as specified, `reduced` shortens them and swaps
+ * overshooting or bouncing easings for a calm one, `none` jumps to the end.
+ */
+export type MotionMode = 'full' | 'reduced' | 'none';
+
+export interface MotionTiming<E> {
+  duration: number;
+  easing: E;
+}
@@ -0,0 +1,18 @@
+import { Observable } from 'rxjs';
+
+export type PlaybackState = 'idle' | 'playing' | 'paused' | 'finished';
+
+export type PlaybackDirection = 'forward' | 'backward';
+
+export interface PlaybackController<T> {
+  value$: Observable<T>;
+  progress$: Observable<number>;
+  state$: Observable<PlaybackState>;
+  play: () => void;
+  pause: () => void;
+  seek: (progress: number) => void;
+  /** Flips the direction without starting or stopping playback. */
+  reverse: () => void;
+  setRate: (rate: number) => void;
+  destroy: () => void;
+}
@@ -0,0 +1,11 @@
+import { Observable } from 'rxjs';
+import { FrameSource } from './animation-frame';
+
+/**
+ * Something that runs for a known duration on frames whose `elapsed` counts
+ * from its own start. Orchestration helpers rely on both to line steps up.
+ */
+export interface Timeline<T = unknown> {
+  duration: number;
+  run: (frames: FrameSource) => Observable<T>;
+}
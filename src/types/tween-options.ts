@@ -0,0 +1,26 @@
+import { FrameSource } from './animation-frame';
+import { ColorSpace } from './color';
+import { EasingFunction } from './easing-function';
+import { MotionMode } from './motion';
+import { NoInfer, TweenEasing } from './tweenable';
+
+export interface TweenOptions<T = number> {
+  from: T;
+  to: NoInfer<T>;
+  duration: number;
+  easing: TweenEasing<NoInfer<T>>;
+  frames?: FrameSource;
+  colorSpace?: ColorSpace;
+  /** Overrides the global motion mode for this tween. */
+  motion?: MotionMode;
+}
+
+export type TweenToOptions<T = number> = Omit<TweenOptions<T>, 'to'>;
+
+export interface FollowTargetOptions {
+  duration: number;
+  easing: EasingFunction;
+  from?: number;
+  frames?: FrameSource;
+  motion?: MotionMode;
+}
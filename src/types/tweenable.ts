@@ -0,0 +1,24 @@
+import { EasingFunction } from './easing-function';
+
+/**
+ * Keeps a type parameter from being inferred at this position, so that it is
+ * only inferred from `from` and everything else has to match it.
+ */
+export type NoInfer<T> = [T][T extends any ? 0 : never];
+
+/**
+ * Resolves to `never` for anything but numbers, CSS color strings and objects,
+ * tuples or arrays of them, which turns invalid `from` values into type errors.
+ */
+export type TweenShape<T> =
+  T extends number ? number :
+  T extends string ? string :
+  T extends Function ? never :
+  T extends object ? { [K in keyof T]: TweenShape<T[K]> } :
+  never;
+
+/**
+ * Either one easing function for every number or a structure of the same shape
+ * with an easing function (or a nested structure) per key.
+ */
+export type TweenEasing<T> = EasingFunction | (T extends number | string ? never : { readonly [K in keyof T]: TweenEasing<T[K]> });
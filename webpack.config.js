@@ -4,7 +4,7 @@ const HtmlWebpackPlugin = require('html-webpack-plugin');
 const MiniCssExtractPlugin = require('mini-css-extract-plugin');
 
 const srcPath = path.resolve('.', 'src');
-const distPath = path.resolve('.', 'dist');
+const distPath = path.resolve('.', 'dist', 'demo');
 
 module.exports = {
     entry: path.resolve(srcPath, 'main.ts'),